@@ -0,0 +1,32 @@
+/**
+ * Pluggable storage backend for the resolution cache
+ *
+ * Values must be JSON-serializable so that persistent stores can be used interchangeably
+ * with the in-memory default. Stores are responsible for expiring entries after their TTL.
+ */
+export interface CacheStore {
+  /**
+   * Returns the cached value, or undefined when missing or expired
+   */
+  get<T>(key: string): Promise<T | undefined>;
+
+  /**
+   * Stores a value for the given number of seconds
+   */
+  set<T>(key: string, value: T, ttlSeconds: number): Promise<void>;
+
+  /**
+   * Removes a single entry
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Removes all entries
+   */
+  clear(): Promise<void>;
+
+  /**
+   * Releases resources held by the store (optional)
+   */
+  close?(): Promise<void>;
+}
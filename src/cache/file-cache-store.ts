@@ -0,0 +1,257 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { CacheStore } from './cache-store.js';
+
+export interface FileCacheStoreOptions {
+  maxEntries?: number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * One line of the cache file: a stored entry, or a tombstone when "d" is set
+ */
+interface CacheRecord {
+  k: string;
+  v?: unknown;
+  e?: number;
+  d?: true;
+}
+
+/**
+ * JSON replacer that keeps Date instances recognizable after a round trip
+ * (JSON.stringify calls Date.toJSON before the replacer sees the value, so read the holder)
+ */
+function replaceDates(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  const raw = this[key];
+  return raw instanceof Date ? { $date: raw.toISOString() } : value;
+}
+
+function reviveDates(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const keys = Object.keys(value);
+    const date = (value as { $date?: unknown }).$date;
+    if (keys.length === 1 && typeof date === 'string') {
+      return new Date(date);
+    }
+  }
+  return value;
+}
+
+/**
+ * File-backed cache store for sharing resolution results across processes
+ * (CLI invocations, short-lived workers, nightly batch jobs)
+ *
+ * Entries are appended to a JSON-lines file; the file is read once on first access.
+ * Overwritten, deleted and expired entries stay in the file until compact() rewrites it,
+ * which close() does automatically once stale lines outnumber live entries. Compaction re-reads
+ * the file first, so entries appended by other processes since the load are kept.
+ */
+export class FileCacheStore implements CacheStore {
+  private path: string;
+  private maxEntries: number;
+  private entries: Map<string, CacheEntry> = new Map();
+  private loaded: Promise<void> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+  private staleLines = 0;
+
+  constructor(path: string, options: FileCacheStoreOptions = {}) {
+    this.path = path;
+    this.maxEntries = options.maxEntries ?? 100000;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    await this.load();
+
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      this.staleLines++;
+      return undefined;
+    }
+
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    if (ttlSeconds <= 0) {
+      return;
+    }
+    await this.load();
+
+    const expiresAt = Date.now() + ttlSeconds * 1000;
+    if (this.entries.delete(key)) {
+      this.staleLines++;
+    }
+    this.entries.set(key, { value, expiresAt });
+    await this.append({ k: key, v: value, e: expiresAt });
+
+    this.evictOverCapacity();
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.load();
+
+    if (this.entries.delete(key)) {
+      this.staleLines += 2; // The entry and its tombstone
+      await this.append({ k: key, d: true });
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+
+    this.entries.clear();
+    this.staleLines = 0;
+    await this.enqueue(() => writeFile(this.path, ''));
+  }
+
+  /**
+   * Purges expired, overwritten and deleted entries by rewriting the cache file
+   *
+   * The file is read again right before the rewrite and replaces the in-memory entries,
+   * so that entries other processes appended since the load are not dropped.
+   *
+   * @returns Number of entries and stale lines removed from the file
+   */
+  async compact(): Promise<number> {
+    await this.load();
+
+    // Queued behind this process's pending appends, so the file holds all of them
+    return this.enqueue(async () => {
+      this.entries = new Map();
+      this.staleLines = 0;
+      this.parse(await this.readContent());
+      this.evictOverCapacity();
+
+      const lines = Array.from(this.entries, ([key, entry]) =>
+        this.serialize({ k: key, v: entry.value, e: entry.expiresAt })
+      );
+
+      // Write to a temporary file first so that concurrent readers never see a partial file
+      const tempPath = `${this.path}.${process.pid}.tmp`;
+      await writeFile(tempPath, lines.join(''));
+      await rename(tempPath, this.path);
+
+      const removed = this.staleLines;
+      this.staleLines = 0;
+      return removed;
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.loaded && this.staleLines > this.entries.size) {
+      await this.compact();
+    }
+    await this.writes;
+  }
+
+  /**
+   * Number of live entries currently held
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readFile();
+    }
+    return this.loaded;
+  }
+
+  private async readFile(): Promise<void> {
+    const content = await this.readContent();
+
+    // Terminate a partially written last line, or the next append would be glued to it
+    if (content && !content.endsWith('\n')) {
+      await appendFile(this.path, '\n');
+    }
+
+    this.parse(content);
+  }
+
+  /**
+   * Current content of the cache file, empty when there is none yet
+   */
+  private async readContent(): Promise<string> {
+    try {
+      return await readFile(this.path, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        await mkdir(dirname(this.path), { recursive: true });
+        return '';
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Applies the records of the cache file on top of the entries held
+   */
+  private parse(content: string): void {
+    const now = Date.now();
+    for (const line of content.split('\n')) {
+      if (!line) {
+        continue;
+      }
+
+      let record: CacheRecord;
+      try {
+        record = JSON.parse(line, reviveDates);
+      } catch {
+        // Partially written line (e.g. process killed mid-write)
+        this.staleLines++;
+        continue;
+      }
+
+      if (this.entries.delete(record.k)) {
+        this.staleLines++;
+      }
+      if (record.d || record.e === undefined || record.e <= now) {
+        this.staleLines++;
+        continue;
+      }
+      this.entries.set(record.k, { value: record.v, expiresAt: record.e });
+    }
+  }
+
+  /**
+   * Drops the oldest entries once over capacity, compaction removes them from disk
+   */
+  private evictOverCapacity(): void {
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.staleLines++;
+    }
+  }
+
+  private append(record: CacheRecord): Promise<void> {
+    const line = this.serialize(record);
+    return this.enqueue(() => appendFile(this.path, line));
+  }
+
+  /**
+   * Serializes file writes so that appends and rewrites never interleave
+   */
+  private enqueue<T>(write: () => Promise<T>): Promise<T> {
+    const next = this.writes.then(write);
+    this.writes = next.then(
+      () => {},
+      () => {}
+    );
+    return next;
+  }
+
+  private serialize(record: CacheRecord): string {
+    return JSON.stringify(record, replaceDates) + '\n';
+  }
+}
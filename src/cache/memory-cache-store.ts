@@ -0,0 +1,74 @@
+import type { CacheStore } from './cache-store.js';
+
+export interface MemoryCacheStoreOptions {
+  maxEntries?: number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * In-memory LRU cache store (default for SMPResolver)
+ * Relies on Map insertion order: entries are re-inserted on access, the oldest is evicted first.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries: Map<string, CacheEntry> = new Map();
+  private maxEntries: number;
+
+  constructor(options: MemoryCacheStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 10000;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    if (ttlSeconds <= 0) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+
+    // Evict least recently used entries
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear();
+  }
+
+  /**
+   * Number of entries currently held (including not yet evicted expired entries)
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
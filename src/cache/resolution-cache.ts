@@ -0,0 +1,186 @@
+import type { CacheStore } from './cache-store.js';
+import type { ParticipantInfo } from '../types/index.js';
+import type { SMPLocation, SMLLookupStrategy } from '../dns/naptr-resolver.js';
+
+export interface ResolutionCacheOptions {
+  ttl: number; // Seconds to keep positive answers
+  negativeTtl: number; // Seconds to keep negative answers (no SMP in DNS, HTTP 404)
+}
+
+/**
+ * Raw SMP response as kept in the cache
+ */
+export interface CachedResponse {
+  finalUrl: string;
+  statusCode: number;
+  body: string;
+}
+
+export type CachedResourceKind = 'servicegroup' | 'servicemetadata';
+
+/**
+ * Resolution cache for NAPTR results, ServiceGroups and ServiceMetadata
+ *
+ * Keys:
+ * - sml:{smlDomain}:{lookupStrategy}:{participantId}
+ * - servicegroup:{ServiceGroup URL}             (URL contains the participant ID)
+ * - servicemetadata:{ServiceMetadata URL}       (URL contains participant and document ID)
+ * - participant:{smlDomain}:{lookupStrategy}:{participantId}:{options}  (complete resolve() result)
+ *
+ * SML answers depend on the lookup strategy (a participant without NAPTR record may still have a
+ * CNAME record), so resolvers with different strategies can safely share one store.
+ *
+ * Storage failures are treated as cache misses so that a broken store never breaks resolution.
+ */
+export class ResolutionCache {
+  private store: CacheStore;
+  private ttl: number;
+  private negativeTtl: number;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(store: CacheStore, options: ResolutionCacheOptions) {
+    this.store = store;
+    this.ttl = options.ttl;
+    this.negativeTtl = options.negativeTtl;
+  }
+
+  /**
+   * Gets a cached SML lookup result
+   * @returns SMP location, null for a cached "not registered" answer, undefined on cache miss
+   */
+  async getSMPLocation(
+    smlDomain: string,
+    lookupStrategy: SMLLookupStrategy,
+    participantId: string
+  ): Promise<SMPLocation | null | undefined> {
+    const entry = await this.read<{ location: SMPLocation | null }>(
+      `sml:${smlDomain}:${lookupStrategy}:${participantId}`
+    );
+    return entry?.location;
+  }
+
+  /**
+   * Caches an SML lookup result (null = not registered, kept for the negative TTL)
+   */
+  async setSMPLocation(
+    smlDomain: string,
+    lookupStrategy: SMLLookupStrategy,
+    participantId: string,
+    location: SMPLocation | null
+  ): Promise<void> {
+    await this.write(
+      `sml:${smlDomain}:${lookupStrategy}:${participantId}`,
+      { location },
+      location ? this.ttl : this.negativeTtl
+    );
+  }
+
+  /**
+   * Gets a cached ServiceGroup or ServiceMetadata response
+   */
+  async getResponse(kind: CachedResourceKind, url: string): Promise<CachedResponse | undefined> {
+    return this.read<CachedResponse>(`${kind}:${url}`);
+  }
+
+  /**
+   * Caches a ServiceGroup or ServiceMetadata response
+   * Only 200 (positive) and 404 (negative) are cacheable, other statuses are transient
+   */
+  async setResponse(
+    kind: CachedResourceKind,
+    url: string,
+    response: CachedResponse
+  ): Promise<void> {
+    if (response.statusCode === 200) {
+      await this.write(`${kind}:${url}`, response, this.ttl);
+    } else if (response.statusCode === 404) {
+      await this.write(`${kind}:${url}`, response, this.negativeTtl);
+    }
+  }
+
+  /**
+   * Gets a cached resolve() result for the given options fingerprint
+   */
+  async getParticipantInfo(
+    smlDomain: string,
+    lookupStrategy: SMLLookupStrategy,
+    participantId: string,
+    optionsKey: string
+  ): Promise<ParticipantInfo | undefined> {
+    const info = await this.read<ParticipantInfo>(
+      `participant:${smlDomain}:${lookupStrategy}:${participantId}:${optionsKey}`
+    );
+    // Copy so that callers mutating the result never alter the cached entry
+    return info && structuredClone(info);
+  }
+
+  /**
+   * Caches a resolve() result; unregistered participants are kept for the negative TTL
+   * Results with SMP errors (HTTP 500, timeouts, network errors) are transient and not cached.
+   */
+  async setParticipantInfo(
+    smlDomain: string,
+    lookupStrategy: SMLLookupStrategy,
+    participantId: string,
+    optionsKey: string,
+    info: ParticipantInfo
+  ): Promise<void> {
+    if (info.diagnostics?.smpErrors?.length) {
+      return;
+    }
+    await this.write(
+      `participant:${smlDomain}:${lookupStrategy}:${participantId}:${optionsKey}`,
+      structuredClone(info),
+      info.isRegistered ? this.ttl : this.negativeTtl
+    );
+  }
+
+  /**
+   * Get hit/miss counters for monitoring
+   */
+  getStats(): { hits: number; misses: number } {
+    return { hits: this.hits, misses: this.misses };
+  }
+
+  /**
+   * Removes all cached entries
+   */
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  /**
+   * Releases the underlying store
+   */
+  async close(): Promise<void> {
+    await this.store.close?.();
+  }
+
+  private async read<T>(key: string): Promise<T | undefined> {
+    let value: T | undefined;
+    try {
+      value = await this.store.get<T>(key);
+    } catch {
+      value = undefined;
+    }
+
+    if (value === undefined) {
+      this.misses++;
+    } else {
+      this.hits++;
+    }
+    return value;
+  }
+
+  private async write<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    if (ttlSeconds <= 0) {
+      return;
+    }
+    try {
+      await this.store.set(key, value, ttlSeconds);
+    } catch {
+      // Caching is best effort
+    }
+  }
+}
@@ -1,6 +1,15 @@
 import * as x509 from '@peculiar/x509';
 import { createHash } from 'crypto';
 import type { CertificateInfo } from '../types/index.js';
+import { CertificateParseError } from '../errors/index.js';
+import type { ResolverInstrumentation } from '../instrumentation/instrumentation.js';
+
+// userID attribute (RFC 4519), used by SMP certificates to carry the Subject Unique Identifier
+const UID_OID = '0.9.2342.19200300.100.1.1';
+
+export interface CertificateParserOptions {
+  instrumentation?: ResolverInstrumentation; // Receives an event per parse() call
+}
 
 /**
  * Parses X.509 certificates and extracts relevant information including Peppol SeatID.
@@ -9,6 +18,11 @@ import type { CertificateInfo } from '../types/index.js';
 export class CertificateParser {
   // Cache parsed certificates by SHA-256 fingerprint
   private cache: Map<string, CertificateInfo> = new Map();
+  private instrumentation?: ResolverInstrumentation;
+
+  constructor(options: CertificateParserOptions = {}) {
+    this.instrumentation = options.instrumentation;
+  }
 
   /**
    * Parse an X.509 certificate and extract relevant information.
@@ -16,19 +30,49 @@ export class CertificateParser {
    *
    * @param rawCertificate - Base64-encoded certificate (DER format from SMP)
    * @returns Parsed certificate information including SeatID if present
+   * @throws CertificateParseError when the certificate cannot be decoded
    */
   parse(rawCertificate: string): CertificateInfo {
+    const startTime = Date.now();
+    const startedAt = performance.now();
+
     // Compute fingerprint for cache lookup
     const fingerprint = this.computeFingerprint(rawCertificate);
 
     // Return cached result if available
     const cached = this.cache.get(fingerprint);
     if (cached) {
+      this.instrumentation?.onCertificateParse?.({
+        cached: true,
+        startTime,
+        durationMs: performance.now() - startedAt
+      });
       return cached;
     }
 
     // Parse the certificate
-    const info = this.parseX509(rawCertificate, fingerprint);
+    let info: CertificateInfo;
+    try {
+      info = this.parseX509(rawCertificate, fingerprint);
+    } catch (error) {
+      const parseError = new CertificateParseError(
+        `Failed to parse certificate: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error }
+      );
+      this.instrumentation?.onCertificateParse?.({
+        cached: false,
+        startTime,
+        durationMs: performance.now() - startedAt,
+        error: parseError
+      });
+      throw parseError;
+    }
+
+    this.instrumentation?.onCertificateParse?.({
+      cached: false,
+      startTime,
+      durationMs: performance.now() - startedAt
+    });
 
     // Cache and return
     this.cache.set(fingerprint, info);
@@ -73,6 +117,9 @@ export class CertificateParser {
     // Peppol SeatIDs typically appear as CN=POP000XXX or similar
     const seatId = this.extractSeatId(subjectDN);
 
+    // Subject Unique Identifier, referenced by SMP redirects (CertificateUID)
+    const subjectUID = cert.subjectName.getField(UID_OID)[0];
+
     // Check expiration
     const now = new Date();
     const isExpired = now > cert.notAfter;
@@ -85,6 +132,7 @@ export class CertificateParser {
       notBefore: cert.notBefore,
       notAfter: cert.notAfter,
       seatId,
+      subjectUID,
       isExpired,
       raw: rawCertificate,
     };
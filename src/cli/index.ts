@@ -1,18 +1,37 @@
 #!/usr/bin/env node
 
-import { SMPResolver } from '../index.js';
-import type { ParticipantInfo } from '../types/index.js';
-import { readFileSync } from 'fs';
+import {
+  SMPResolver,
+  FileCacheStore,
+  IdentifierValidatorRegistry,
+  ParticipantId,
+  ParticipantIdentifierSchemeLookup
+} from '../index.js';
+import type { ParticipantInfo, ResolveOptions } from '../types/index.js';
+import type { NetworkName } from '../network/profiles.js';
+import { readFileSync, createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import { once } from 'events';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 
+// Options followed by a value, which must not be mistaken for the participant ID
+const VALUE_OPTIONS = ['--cache', '--batch', '--concurrency', '--network', '--sml-domain'];
+
 interface CLIOptions {
   verbose: boolean;
   verboseExplicit: boolean;  // True only when -v/--verbose explicitly passed
   quiet: boolean;
   businessCard: boolean;
   certificate: boolean;
+  verifySignature: boolean;
   all: boolean;
+  cachePath?: string;        // JSON-lines cache file shared across invocations
+  batchInput?: string;       // File with one participant ID per line ('-' for stdin)
+  concurrency: number;
+  network?: string;          // peppol-prod (default), peppol-test or custom
+  smlDomain?: string;        // SML domain override, required for the custom network
+  validate: boolean;         // Check scheme format and check digits before resolving
 }
 
 function getVersion(): string {
@@ -28,16 +47,62 @@ function getVersion(): string {
 }
 
 /**
- * Validates that a participant ID is in full format (scheme:value)
+ * Returns the value of an option that takes an argument (e.g. --cache <path>)
  */
-function isValidParticipantId(id: string): boolean {
-  const colonIndex = id.indexOf(':');
-  if (colonIndex === -1) {
-    return false;
+function getOptionValue(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) {
+    return undefined;
+  }
+
+  const value = args[index + 1];
+  if (!value || (value.startsWith('-') && value !== '-')) {
+    console.error(`Error: ${name} requires a value`);
+    process.exit(1);
   }
-  const scheme = id.substring(0, colonIndex);
-  const value = id.substring(colonIndex + 1);
-  return scheme.length > 0 && value.length > 0;
+  return value;
+}
+
+/**
+ * Reads participant IDs from the first column of each line (plain list or CSV)
+ */
+async function* readParticipantIds(
+  input: string,
+  validators: IdentifierValidatorRegistry | null
+): AsyncGenerator<string> {
+  const lines = createInterface({
+    input: input === '-' ? process.stdin : createReadStream(input),
+    crlfDelay: Infinity
+  });
+
+  for await (const line of lines) {
+    const participantId = line
+      .split(/[,;\t]/)[0]
+      .trim()
+      .replace(/^"|"$/g, '');
+    if (!participantId || participantId.startsWith('#')) {
+      continue;
+    }
+
+    // Header rows and malformed IDs are reported on stderr so stdout stays valid NDJSON
+    if (!isValidParticipantId(participantId)) {
+      console.error(`Skipping invalid participant ID: "${participantId}"`);
+      continue;
+    }
+    const issue = validators?.validate(participantId).issue;
+    if (issue) {
+      console.error(`Skipping invalid participant ID: "${participantId}" (${issue.message})`);
+      continue;
+    }
+    yield participantId;
+  }
+}
+
+/**
+ * Validates that a participant ID is in full format (scheme:value, or its URI notations)
+ */
+function isValidParticipantId(id: string): boolean {
+  return ParticipantId.tryParse(id) !== null;
 }
 
 async function main() {
@@ -54,15 +119,33 @@ async function main() {
     process.exit(0);
   }
 
+  if (args.includes('--list-schemes')) {
+    listSchemes();
+    process.exit(0);
+  }
+
   const verboseExplicit = args.includes('--verbose') || args.includes('-v');
 
+  const concurrency = parseInt(getOptionValue(args, '--concurrency') ?? '10', 10);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    console.error('Error: --concurrency must be a positive integer');
+    process.exit(1);
+  }
+
   const options: CLIOptions = {
     verbose: verboseExplicit,
     verboseExplicit,
     quiet: args.includes('--quiet') || args.includes('-q'),
     businessCard: args.includes('--business-card') || args.includes('-b'),
     certificate: args.includes('--certificate') || args.includes('-c'),
-    all: args.includes('--all') || args.includes('-a')
+    verifySignature: args.includes('--verify-signature') || args.includes('-s'),
+    all: args.includes('--all') || args.includes('-a'),
+    cachePath: getOptionValue(args, '--cache'),
+    batchInput: getOptionValue(args, '--batch'),
+    concurrency,
+    network: getOptionValue(args, '--network'),
+    smlDomain: getOptionValue(args, '--sml-domain'),
+    validate: !args.includes('--no-validate')
   };
 
   // --all implies verbose, businessCard, and certificate
@@ -72,8 +155,36 @@ async function main() {
     options.certificate = true;
   }
 
-  // Get participant ID (first non-option argument)
-  const participantId = args.find(arg => !arg.startsWith('-'));
+  let resolver: SMPResolver;
+  try {
+    resolver = new SMPResolver({
+      network: options.network as NetworkName | undefined,
+      smlDomain: options.smlDomain,
+      ...(options.cachePath && { cache: new FileCacheStore(options.cachePath) })
+    });
+  } catch (error: unknown) {
+    console.error('Error:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  const validators = options.validate ? new IdentifierValidatorRegistry() : null;
+
+  if (options.batchInput) {
+    try {
+      await processBatch(resolver, options.batchInput, validators, options);
+    } catch (error: unknown) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    } finally {
+      await resolver.close();
+      process.exit(0);
+    }
+  }
+
+  // Get participant ID (first non-option argument that is not an option value)
+  const participantId = args.find(
+    (arg, index) => !arg.startsWith('-') && !VALUE_OPTIONS.includes(args[index - 1])
+  );
 
   if (!participantId) {
     console.error('Error: No participant ID provided');
@@ -87,14 +198,18 @@ async function main() {
     console.error('Expected format: {scheme}:{value}');
     console.error('Examples:');
     console.error('  0208:0843766574      (Belgian KBO)');
-    console.error('  9925:be0843766574    (Belgian VAT - lowercase "be")');
+    console.error('  9925:BE0843766574    (Belgian VAT)');
     console.error('  0106:12345678        (Dutch KvK)');
     process.exit(1);
   }
 
-  const resolver = new SMPResolver({
-    smlDomain: 'participant.sml.prod.tech.peppol.org'
-  });
+  // Reject IDs that cannot exist before spending DNS and HTTP requests on them
+  const issue = validators?.validate(participantId).issue;
+  if (issue) {
+    console.error(`Error: Invalid participant ID "${participantId}": ${issue.message}`);
+    console.error('Use --no-validate to resolve it anyway');
+    process.exit(1);
+  }
 
   try {
     await processSingle(resolver, participantId, options);
@@ -107,14 +222,48 @@ async function main() {
   }
 }
 
-async function processSingle(resolver: SMPResolver, participantId: string, options: CLIOptions) {
-  // Resolve with appropriate options based on flags
-  const result = await resolver.resolve(participantId, {
+/**
+ * Maps CLI flags to resolve options
+ */
+function getResolveOptions(options: CLIOptions): ResolveOptions {
+  return {
     fetchDocumentTypes: options.verbose || options.certificate || options.all,
     includeBusinessCard: options.businessCard || options.all,
-    parseCertificate: options.certificate || options.all
+    parseCertificate: options.certificate || options.all,
+    verifySignature: options.verifySignature
+  };
+}
+
+/**
+ * Resolves a list of participant IDs and writes one JSON object per line (NDJSON)
+ */
+async function processBatch(
+  resolver: SMPResolver,
+  input: string,
+  validators: IdentifierValidatorRegistry | null,
+  options: CLIOptions
+) {
+  const results = resolver.resolveStream(readParticipantIds(input, validators), {
+    ...getResolveOptions(options),
+    concurrency: options.concurrency
   });
 
+  for await (const result of results) {
+    const line = options.quiet
+      ? { participantId: result.participantId, registrationStatus: result.registrationStatus }
+      : stripRawCertificates(result, options);
+
+    // Stop pulling participants while stdout is congested
+    if (!process.stdout.write(JSON.stringify(line) + '\n')) {
+      await once(process.stdout, 'drain');
+    }
+  }
+}
+
+async function processSingle(resolver: SMPResolver, participantId: string, options: CLIOptions) {
+  // Resolve with appropriate options based on flags
+  const result = await resolver.resolve(participantId, getResolveOptions(options));
+
   if (options.quiet) {
     // In quiet mode, show registration status
     if (!result.isRegistered) {
@@ -127,26 +276,7 @@ async function processSingle(resolver: SMPResolver, participantId: string, optio
     return;
   }
 
-  // Prepare output - strip raw certificate unless verbose
-  let output: any = { ...result };
-
-  // Remove raw certificate from endpoint unless -v explicitly passed
-  if (!options.verboseExplicit && output.endpoint?.certificate) {
-    output = {
-      ...output,
-      endpoint: { ...output.endpoint }
-    };
-    delete output.endpoint.certificate;
-  }
-
-  // Also strip raw from certificateInfo unless -v explicitly passed
-  if (!options.verboseExplicit && output.certificateInfo?.raw) {
-    output = {
-      ...output,
-      certificateInfo: { ...output.certificateInfo }
-    };
-    delete output.certificateInfo.raw;
-  }
+  const output = stripRawCertificates(result, options);
 
   // Add visual indicators for different registration statuses
   if (options.verbose && result.registrationStatus) {
@@ -176,6 +306,57 @@ async function processSingle(resolver: SMPResolver, participantId: string, optio
   console.log(JSON.stringify(output, null, 2));
 }
 
+/**
+ * Prepares output - strips raw certificates unless -v explicitly passed
+ */
+function stripRawCertificates(result: ParticipantInfo, options: CLIOptions): any {
+  let output: any = { ...result };
+
+  // Remove raw certificate from endpoint unless -v explicitly passed
+  if (!options.verboseExplicit && output.endpoint?.certificate) {
+    output = {
+      ...output,
+      endpoint: { ...output.endpoint }
+    };
+    delete output.endpoint.certificate;
+  }
+
+  // Also strip raw from certificateInfo unless -v explicitly passed
+  if (!options.verboseExplicit && output.certificateInfo?.raw) {
+    output = {
+      ...output,
+      certificateInfo: { ...output.certificateInfo }
+    };
+    delete output.certificateInfo.raw;
+  }
+
+  // Same for the SMP signing certificate
+  if (!options.verboseExplicit && output.signature?.signerCertificate?.raw) {
+    output = {
+      ...output,
+      signature: {
+        ...output.signature,
+        signerCertificate: { ...output.signature.signerCertificate }
+      }
+    };
+    delete output.signature.signerCertificate.raw;
+  }
+
+  return output;
+}
+
+/**
+ * Prints the bundled participant identifier scheme code list, one scheme per line
+ */
+function listSchemes() {
+  const lookup = ParticipantIdentifierSchemeLookup.getInstance();
+  console.log(`Peppol participant identifier schemes (code list ${lookup.getVersion()})\n`);
+  for (const scheme of lookup.getSchemes()) {
+    const state = scheme.state === 'deprecated' ? '  (deprecated)' : '';
+    console.log(`${scheme.icd}  ${scheme.schemeId.padEnd(10)} ${scheme.name}${state}`);
+  }
+}
+
 function showHelp() {
   console.log(`
 SMP Resolver CLI v${getVersion()}
@@ -190,25 +371,37 @@ Options:
   -q, --quiet         Show minimal output (just registered/not registered)
   -b, --business-card Fetch full business card information
   -c, --certificate   Parse and show X.509 certificate info (SeatID, validity, etc.)
+  -s, --verify-signature  Verify the XML-DSig signature of the SMP service metadata
   -a, --all           Fetch all available information (verbose + business card + certificate)
+  --cache <path>      Reuse results across invocations via a JSON-lines cache file
+  --batch <file>      Resolve one participant ID per line (CSV first column, '-' for stdin)
+                      and write one JSON result per line (NDJSON)
+  --concurrency <n>   Parallel resolutions in batch mode (default: 10)
+  --network <name>    Peppol network: peppol-prod (default), peppol-test or custom
+  --sml-domain <domain>  SML domain to query (required with --network custom)
+  --no-validate       Skip scheme format and check digit validation of participant IDs
+  --list-schemes      List the participant identifier schemes (ICD codes) of the Peppol code list
 
 Participant ID Format:
   The participant ID must include the ICD scheme prefix.
   Format: {scheme}:{value}
+  IDs of known schemes are checked (length, check digits, VAT country prefix)
+  before any lookup.
 
   Common ICD schemes:
     0208  - Belgian KBO (business number)
-    9925  - Belgian VAT (use lowercase 'be' prefix)
+    9925  - Belgian VAT (country prefix in any case)
     0106  - Dutch KvK
     0204  - German Handelsregister
     0009  - French SIRET
+  Run smp-resolve --list-schemes for all schemes.
 
 Examples:
   # Belgian KBO number
   smp-resolve 0208:0843766574
 
-  # Belgian VAT number (lowercase 'be')
-  smp-resolve 9925:be0843766574
+  # Belgian VAT number (normalized to 9925:be0843766574)
+  smp-resolve 9925:BE0843766574
 
   # Dutch company
   smp-resolve 0106:12345678
@@ -222,11 +415,24 @@ Examples:
   # Show certificate info (SeatID, validity)
   smp-resolve 0208:0843766574 -c
 
+  # Verify the SMP signature on the service metadata
+  smp-resolve 0208:0843766574 -v -s
+
   # Fetch all information
   smp-resolve 0208:0843766574 --all
 
   # Quiet mode (just status)
   smp-resolve 0208:0843766574 -q
+
+  # Resolve a CSV of participant IDs into NDJSON
+  smp-resolve --batch participants.csv --concurrency 20 > results.ndjson
+  cat participants.txt | smp-resolve --batch - -q
+
+  # Cache results on disk (repeated runs skip DNS and HTTP)
+  smp-resolve 0208:0843766574 --cache ~/.cache/smp-resolve.jsonl
+
+  # Resolve against the Peppol test network (test SML)
+  smp-resolve 0208:0843766574 --network peppol-test
 `);
 }
 
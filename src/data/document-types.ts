@@ -1,56 +1,143 @@
 // Import the JSON directly as a module
 import codeListData from './peppol-codelists-v9.2.json' with { type: 'json' };
+import type { DocumentTypeInfo } from '../types/index.js';
 
-interface DocumentTypeEntry {
+export interface DocumentTypeEntry {
   name: string;
   scheme: string;
   value: string;
   state: string;
+  category?: string;
+  'domain-community'?: string;
+  'bis-version'?: string;
+  'process-ids'?: Array<{ scheme: string; value: string }>;
+  'initial-release'?: string;
+  'deprecation-release'?: string;
+  'removal-date'?: string;
   [key: string]: any;
 }
 
-interface CodeList {
+/**
+ * Peppol document type code list in its published JSON format
+ */
+export interface DocumentTypeCodeList {
   version: string;
   'entry-count': number;
   values: DocumentTypeEntry[];
 }
 
+/**
+ * Document type code list bundled with the resolver
+ */
+export const PEPPOL_DOCUMENT_TYPE_CODE_LIST = codeListData as DocumentTypeCodeList;
+
 /**
  * Document type lookup based on official PEPPOL code lists
  */
 export class DocumentTypeLookup {
-  private static instance: DocumentTypeLookup;
-  private codeList: CodeList;
-  private lookupMap: Map<string, string>;
-
-  private constructor() {
-    this.codeList = codeListData as CodeList;
-    
-    // Build lookup map for fast access
+  private static instances = new WeakMap<DocumentTypeCodeList, DocumentTypeLookup>();
+  private codeList: DocumentTypeCodeList;
+  private lookupMap: Map<string, DocumentTypeInfo>;
+
+  private constructor(codeList: DocumentTypeCodeList) {
+    this.codeList = codeList;
+
+    // Build lookup map keyed by "scheme::value": some values are listed under both the
+    // busdox-docid-qns and the peppol-doctype-wildcard scheme, in different states.
+    // Removed entries are kept so registrations still using them can be reported.
     this.lookupMap = new Map();
     for (const entry of this.codeList.values) {
-      if (entry.state === 'active' || entry.state === 'deprecated') {
-        // Use the full value as the key
-        this.lookupMap.set(entry.value, entry.name);
+      if (entry.state === 'active' || entry.state === 'deprecated' || entry.state === 'removed') {
+        this.lookupMap.set(`${entry.scheme}::${entry.value}`, {
+          name: entry.name,
+          scheme: entry.scheme,
+          value: entry.value,
+          state: entry.state,
+          ...(entry.category && { category: entry.category }),
+          ...(entry['domain-community'] && { domainCommunity: entry['domain-community'] }),
+          ...(entry['bis-version'] && { bisVersion: entry['bis-version'] }),
+          processIds: entry['process-ids'] ?? [],
+          ...(entry['initial-release'] && { initialRelease: entry['initial-release'] }),
+          ...(entry['deprecation-release'] && {
+            deprecationRelease: entry['deprecation-release']
+          }),
+          ...(entry['removal-date'] && { removalDate: entry['removal-date'] })
+        });
       }
     }
   }
 
   /**
-   * Get singleton instance
+   * Get the shared instance for a code list (default: the bundled one)
    */
-  static getInstance(): DocumentTypeLookup {
-    if (!DocumentTypeLookup.instance) {
-      DocumentTypeLookup.instance = new DocumentTypeLookup();
+  static getInstance(
+    codeList: DocumentTypeCodeList = PEPPOL_DOCUMENT_TYPE_CODE_LIST
+  ): DocumentTypeLookup {
+    let instance = DocumentTypeLookup.instances.get(codeList);
+    if (!instance) {
+      instance = new DocumentTypeLookup(codeList);
+      DocumentTypeLookup.instances.set(codeList, instance);
     }
-    return DocumentTypeLookup.instance;
+    return instance;
+  }
+
+  /**
+   * Look up a document type by its identifier value
+   * Without a scheme, the busdox-docid-qns entry is preferred over other schemes.
+   */
+  getDocumentType(documentTypeId: string, scheme?: string): DocumentTypeInfo | undefined {
+    if (scheme) {
+      return this.lookupMap.get(`${scheme}::${documentTypeId}`);
+    }
+    return (
+      this.lookupMap.get(`busdox-docid-qns::${documentTypeId}`) ??
+      this.lookupMap.get(`peppol-doctype-wildcard::${documentTypeId}`)
+    );
+  }
+
+  /**
+   * List document types in code list order, optionally narrowed down by category
+   * (e.g. "Invoice"), domain community (e.g. "POAC") and state
+   */
+  getDocumentTypes(filter?: {
+    category?: string;
+    domainCommunity?: string;
+    state?: DocumentTypeInfo['state'];
+  }): DocumentTypeInfo[] {
+    return [...this.lookupMap.values()].filter(
+      docType =>
+        (!filter?.category || docType.category === filter.category) &&
+        (!filter?.domainCommunity || docType.domainCommunity === filter.domainCommunity) &&
+        (!filter?.state || docType.state === filter.state)
+    );
+  }
+
+  /**
+   * List the distinct document type categories (e.g. "Invoice", "Order", "Despatch Advice")
+   */
+  getCategories(): string[] {
+    return [...new Set(this.getDocumentTypes().flatMap(docType => docType.category ?? []))];
+  }
+
+  /**
+   * List the distinct domain communities (e.g. "POAC" for post-award, "PRAC" for pre-award)
+   */
+  getDomainCommunities(): string[] {
+    return [...new Set(this.getDocumentTypes().flatMap(docType => docType.domainCommunity ?? []))];
+  }
+
+  /**
+   * Process IDs the code list pairs with a document type, empty when the document type is unknown
+   */
+  getProcessIds(documentTypeId: string, scheme?: string): Array<{ scheme: string; value: string }> {
+    return this.getDocumentType(documentTypeId, scheme)?.processIds ?? [];
   }
 
   /**
    * Look up the friendly name for a document type
    */
   getFriendlyName(documentTypeId: string): string | undefined {
-    return this.lookupMap.get(documentTypeId);
+    return this.getDocumentType(documentTypeId)?.name;
   }
 
   /**
@@ -59,4 +146,4 @@ export class DocumentTypeLookup {
   getVersion(): string {
     return this.codeList.version;
   }
-}
\ No newline at end of file
+}
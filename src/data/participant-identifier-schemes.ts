@@ -0,0 +1,95 @@
+// Import the JSON directly as a module
+import codeListData from './peppol-participant-identifier-schemes-v9.2.json' with { type: 'json' };
+import type { ParticipantIdentifierSchemeInfo } from '../types/index.js';
+
+export interface ParticipantIdentifierSchemeEntry {
+  schemeid: string;
+  iso6523: string;
+  country: string;
+  'scheme-name': string;
+  'issuing-agency': string;
+  state: string;
+  [key: string]: any;
+}
+
+/**
+ * Peppol participant identifier scheme code list in its published JSON format
+ */
+export interface ParticipantIdentifierSchemeCodeList {
+  version: string;
+  'entry-count': number;
+  values: ParticipantIdentifierSchemeEntry[];
+}
+
+/**
+ * Participant identifier scheme code list bundled with the resolver
+ */
+export const PEPPOL_PARTICIPANT_IDENTIFIER_SCHEME_CODE_LIST =
+  codeListData as ParticipantIdentifierSchemeCodeList;
+
+/**
+ * Participant identifier scheme (ICD) lookup based on official PEPPOL code lists
+ */
+export class ParticipantIdentifierSchemeLookup {
+  private static instances = new WeakMap<
+    ParticipantIdentifierSchemeCodeList,
+    ParticipantIdentifierSchemeLookup
+  >();
+  private codeList: ParticipantIdentifierSchemeCodeList;
+  private lookupMap: Map<string, ParticipantIdentifierSchemeInfo>;
+
+  private constructor(codeList: ParticipantIdentifierSchemeCodeList) {
+    this.codeList = codeList;
+
+    // Build lookup map keyed by ICD code, skipping schemes that were removed
+    this.lookupMap = new Map();
+    for (const entry of this.codeList.values) {
+      if (entry.state === 'active' || entry.state === 'deprecated') {
+        this.lookupMap.set(entry.iso6523, {
+          icd: entry.iso6523,
+          schemeId: entry.schemeid,
+          name: entry['scheme-name'],
+          issuingAgency: entry['issuing-agency'],
+          country: entry.country,
+          state: entry.state
+        });
+      }
+    }
+  }
+
+  /**
+   * Get the shared instance for a code list (default: the bundled one)
+   */
+  static getInstance(
+    codeList: ParticipantIdentifierSchemeCodeList = PEPPOL_PARTICIPANT_IDENTIFIER_SCHEME_CODE_LIST
+  ): ParticipantIdentifierSchemeLookup {
+    let instance = ParticipantIdentifierSchemeLookup.instances.get(codeList);
+    if (!instance) {
+      instance = new ParticipantIdentifierSchemeLookup(codeList);
+      ParticipantIdentifierSchemeLookup.instances.set(codeList, instance);
+    }
+    return instance;
+  }
+
+  /**
+   * Look up a scheme by its ICD code (e.g. "0208")
+   */
+  getScheme(icd: string): ParticipantIdentifierSchemeInfo | undefined {
+    return this.lookupMap.get(icd);
+  }
+
+  /**
+   * List schemes in ICD order, optionally only those in the given state
+   */
+  getSchemes(state?: ParticipantIdentifierSchemeInfo['state']): ParticipantIdentifierSchemeInfo[] {
+    const schemes = [...this.lookupMap.values()];
+    return state ? schemes.filter(scheme => scheme.state === state) : schemes;
+  }
+
+  /**
+   * Get the code list version
+   */
+  getVersion(): string {
+    return this.codeList.version;
+  }
+}
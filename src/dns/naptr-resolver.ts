@@ -1,18 +1,73 @@
 import { Resolver } from 'node:dns/promises';
 import type { DNSRecord } from '../types/index.js';
+import {
+  retry,
+  resolveRetryPolicy,
+  isTimeoutError,
+  type RetryPolicy
+} from '../resilience/retry.js';
+import { DNSError } from '../errors/index.js';
+import type { ResolverInstrumentation } from '../instrumentation/instrumentation.js';
+import { NETWORK_PROFILES, DEFAULT_NETWORK } from '../network/profiles.js';
+import {
+  hashParticipantId,
+  hashParticipantIdMD5,
+  parseParticipantId
+} from '../sml/participant-hash.js';
+
+/**
+ * How participants are located in the SML
+ * - naptr: SHA-256/Base32 name with a Meta:SMP NAPTR record (current Peppol SML)
+ * - cname: MD5 "B-" name with a CNAME to the SMP host (legacy SML, not migrated networks)
+ * - naptr-then-cname: NAPTR first, CNAME when the participant has no NAPTR record
+ */
+export type SMLLookupStrategy = 'naptr' | 'cname' | 'naptr-then-cname';
+
+/**
+ * DNS mechanism that located an SMP
+ */
+export type SMLLookupMechanism = 'naptr' | 'cname';
+
+export interface SMPLocation {
+  smpUrl: string;
+  mechanism: SMLLookupMechanism;
+  domain: string; // DNS name that answered
+}
 
 export interface NAPTRResolverOptions {
   dnsServers?: string[];
+  smlDomain?: string; // SML domain used by lookupSMP() (default: Peppol production SML)
+  lookupStrategy?: SMLLookupStrategy; // Used by locateSMP() (default: 'naptr')
   timeout?: number;
+  retry?: RetryPolicy | false; // Retry policy for server failures (default: 3 attempts)
+  instrumentation?: ResolverInstrumentation; // Receives DNS query start/end events
+}
+
+// Definitive answers: the name does not exist or has no NAPTR records
+const NO_RECORD_CODES = ['ENOTFOUND', 'ENODATA'];
+
+function getErrorCode(error: unknown): string | undefined {
+  if (error && typeof error === 'object' && 'code' in error) {
+    return (error as { code: string }).code;
+  }
+  return undefined;
 }
 
 export class NAPTRResolver {
   private resolver: Resolver;
+  private smlDomain: string;
+  private lookupStrategy: SMLLookupStrategy;
   private timeout: number;
+  private retryPolicy: Required<RetryPolicy>;
+  private instrumentation?: ResolverInstrumentation;
 
   constructor(options: NAPTRResolverOptions = {}) {
     this.resolver = new Resolver();
+    this.smlDomain = options.smlDomain ?? NETWORK_PROFILES[DEFAULT_NETWORK].smlDomain;
+    this.lookupStrategy = options.lookupStrategy ?? 'naptr';
     this.timeout = options.timeout ?? 5000;
+    this.retryPolicy = resolveRetryPolicy(options.retry);
+    this.instrumentation = options.instrumentation;
 
     if (options.dnsServers && options.dnsServers.length > 0) {
       this.resolver.setServers(options.dnsServers);
@@ -22,33 +77,116 @@ export class NAPTRResolver {
   /**
    * Performs NAPTR lookup for a domain
    * @param domain The domain to lookup (e.g., hash.scheme.sml-domain)
+   * @param signal Aborts the lookup (rejects with the signal's reason)
    * @returns NAPTR records
    */
-  async resolveNAPTR(domain: string): Promise<DNSRecord[]> {
+  async resolveNAPTR(domain: string, signal?: AbortSignal): Promise<DNSRecord[]> {
+    const records = await this.query(
+      'NAPTR',
+      domain,
+      () => this.resolver.resolveNaptr(domain),
+      signal
+    );
+
+    return records.map(record => ({
+      name: domain,
+      type: 'NAPTR',
+      class: 'IN',
+      ttl: 300, // Default TTL, actual value depends on DNS response
+      order: record.order,
+      preference: record.preference,
+      flags: record.flags,
+      service: record.service,
+      regexp: record.regexp,
+      replacement: record.replacement
+    }));
+  }
+
+  /**
+   * Performs CNAME lookup for a domain
+   * @param domain The domain to lookup (e.g., B-hash.scheme.sml-domain)
+   * @param signal Aborts the lookup (rejects with the signal's reason)
+   * @returns CNAME target without trailing dot, or null if the name has none
+   */
+  async resolveCNAME(domain: string, signal?: AbortSignal): Promise<string | null> {
+    const targets = await this.query(
+      'CNAME',
+      domain,
+      () => this.resolver.resolveCname(domain),
+      signal
+    );
+    return targets.length > 0 ? targets[0].replace(/\.$/, '') : null;
+  }
+
+  /**
+   * Runs a DNS query, reporting it to the instrumentation
+   */
+  private async query<T>(
+    recordType: 'NAPTR' | 'CNAME',
+    domain: string,
+    lookup: () => Promise<T[]>,
+    signal?: AbortSignal
+  ): Promise<T[]> {
+    const startTime = Date.now();
+    const startedAt = performance.now();
+    this.instrumentation?.onDNSQueryStart?.({ domain, recordType, startTime });
+
+    let records: T[];
+    try {
+      records = await this.queryWithRetry(recordType, domain, lookup, signal);
+    } catch (error) {
+      this.instrumentation?.onDNSQueryEnd?.({
+        domain,
+        recordType,
+        startTime,
+        durationMs: performance.now() - startedAt,
+        error
+      });
+      throw error;
+    }
+
+    this.instrumentation?.onDNSQueryEnd?.({
+      domain,
+      recordType,
+      startTime,
+      durationMs: performance.now() - startedAt,
+      recordCount: records.length
+    });
+    return records;
+  }
+
+  /**
+   * DNS query with timeout and retries, a non-existent name yields no records
+   */
+  private async queryWithRetry<T>(
+    recordType: 'NAPTR' | 'CNAME',
+    domain: string,
+    lookup: () => Promise<T[]>,
+    signal?: AbortSignal
+  ): Promise<T[]> {
     try {
-      const records = await this.withTimeout(this.resolver.resolveNaptr(domain), this.timeout);
-
-      return records.map(record => ({
-        name: domain,
-        type: 'NAPTR',
-        class: 'IN',
-        ttl: 300, // Default TTL, actual value depends on DNS response
-        order: record.order,
-        preference: record.preference,
-        flags: record.flags,
-        service: record.service,
-        regexp: record.regexp,
-        replacement: record.replacement
-      }));
+      // Server failures (SERVFAIL, refused, ...) are transient, NXDOMAIN is not; timeouts are
+      // only retried when the policy says so, a dead name server would cost attempts × timeout
+      return await retry(() => this.withTimeout(lookup(), this.timeout, signal), this.retryPolicy, {
+        isRetryableError: error =>
+          !NO_RECORD_CODES.includes(getErrorCode(error) ?? '') &&
+          (this.retryPolicy.retryTimeouts || !isTimeoutError(error)),
+        signal
+      });
     } catch (error: unknown) {
-      if (error && typeof error === 'object' && 'code' in error) {
-        const errorCode = (error as { code: string }).code;
-        if (errorCode === 'ENOTFOUND' || errorCode === 'ENODATA') {
-          return [];
-        }
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      if (NO_RECORD_CODES.includes(getErrorCode(error) ?? '')) {
+        return [];
       }
       const message = error instanceof Error ? error.message : String(error);
-      throw new Error(`DNS NAPTR lookup failed for ${domain}: ${message}`);
+      throw new DNSError(
+        error instanceof DNSError && error.code === 'DNS_TIMEOUT' ? 'DNS_TIMEOUT' : 'DNS_FAILURE',
+        `DNS ${recordType} lookup failed for ${domain}: ${message}`,
+        { domain },
+        { cause: error }
+      );
     }
   }
 
@@ -132,28 +270,91 @@ export class NAPTRResolver {
    * Performs complete SML lookup for a participant
    * @param participantHash Base32 encoded hash of participant ID
    * @param scheme Participant scheme (e.g., "0208", "9925")
-   * @param smlDomain SML domain (default: edelivery.tech.ec.europa.eu)
+   * @param smlDomain SML domain (default: the smlDomain option)
+   * @param signal Aborts the lookup (rejects with the signal's reason)
    * @returns SMP base URL or null if not found
    */
   async lookupSMP(
     participantHash: string,
     scheme: string,
-    smlDomain: string = 'participant.sml.prod.tech.peppol.org'
+    smlDomain: string = this.smlDomain,
+    signal?: AbortSignal
   ): Promise<string | null> {
     // NAPTR format: {hash}.iso6523-actorid-upis.{sml-domain}
     const domain = `${participantHash}.iso6523-actorid-upis.${smlDomain}`;
-    const records = await this.resolveNAPTR(domain);
+    const records = await this.resolveNAPTR(domain, signal);
     return this.extractSMPUrl(records);
   }
 
   /**
-   * Wraps a promise with a timeout
+   * Locates the SMP of a participant using the configured lookup strategy
+   * @param participantId Full participant ID (e.g., "0208:0843766574")
+   * @param smlDomain SML domain (default: the smlDomain option)
+   * @param signal Aborts the lookup (rejects with the signal's reason)
+   * @returns SMP URL and the mechanism that found it, or null if not found
    */
-  private async withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  async locateSMP(
+    participantId: string,
+    smlDomain: string = this.smlDomain,
+    signal?: AbortSignal
+  ): Promise<SMPLocation | null> {
+    const parsed = parseParticipantId(participantId);
+    if (!parsed) {
+      return null;
+    }
+
+    if (this.lookupStrategy !== 'cname') {
+      const domain = `${hashParticipantId(parsed.value, parsed.scheme)}.iso6523-actorid-upis.${smlDomain}`;
+      const smpUrl = this.extractSMPUrl(await this.resolveNAPTR(domain, signal));
+      if (smpUrl) {
+        return { smpUrl, mechanism: 'naptr', domain };
+      }
+      if (this.lookupStrategy === 'naptr') {
+        return null;
+      }
+    }
+
+    // Legacy SML: the participant name is an alias of the SMP host, which serves plain HTTP
+    const domain = `${hashParticipantIdMD5(parsed.value, parsed.scheme)}.iso6523-actorid-upis.${smlDomain}`;
+    const target = await this.resolveCNAME(domain, signal);
+    return target ? { smpUrl: `http://${target}`, mechanism: 'cname', domain } : null;
+  }
+
+  /**
+   * Wraps a promise with a timeout and an optional abort signal
+   * node:dns cannot cancel a single query, so the pending query is abandoned instead
+   */
+  private async withTimeout<T>(
+    promise: Promise<T>,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
+
     const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error('DNS lookup timeout')), timeoutMs);
+      timer = setTimeout(
+        () => reject(new DNSError('DNS_TIMEOUT', 'DNS lookup timeout')),
+        timeoutMs
+      );
+
+      if (signal) {
+        onAbort = () => reject(signal.reason);
+        if (signal.aborted) {
+          onAbort();
+        } else {
+          signal.addEventListener('abort', onAbort, { once: true });
+        }
+      }
     });
 
-    return Promise.race([promise, timeoutPromise]);
+    try {
+      return await Promise.race([promise, timeoutPromise]);
+    } finally {
+      clearTimeout(timer);
+      if (onAbort) {
+        signal?.removeEventListener('abort', onAbort);
+      }
+    }
   }
 }
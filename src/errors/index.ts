@@ -0,0 +1,163 @@
+import type { SMPRedirect } from '../types/index.js';
+import type { IdentifierValidationIssue } from '../identifiers/validators.js';
+
+/**
+ * Stable, machine-readable error codes
+ * Messages may change between releases, codes do not.
+ */
+export type SMPResolverErrorCode =
+  | 'INVALID_PARTICIPANT_ID'          // Participant ID is not in scheme:value format or fails validation
+  | 'INVALID_OPTIONS'                 // Invalid option value (e.g. concurrency)
+  | 'DNS_NXDOMAIN'                    // No SMP registered in the SML for the participant
+  | 'DNS_TIMEOUT'                     // NAPTR lookup did not answer in time
+  | 'DNS_FAILURE'                     // NAPTR lookup failed (SERVFAIL, refused, ...)
+  | 'SMP_HTTP_STATUS'                 // SMP answered with a non-200 status
+  | 'SMP_NETWORK_ERROR'               // SMP could not be reached (connection, TLS, timeout)
+  | 'SMP_CIRCUIT_OPEN'                // SMP skipped because it kept failing recently
+  | 'SMP_XML_INVALID'                 // ServiceGroup or ServiceMetadata XML could not be parsed
+  | 'REDIRECT_LIMIT'                  // More HTTP or SMP-level redirects than allowed
+  | 'REDIRECT_INVALID'                // Redirect without a usable target
+  | 'REDIRECT_CERTIFICATE_MISMATCH'   // Redirect target not signed with the announced certificate
+  | 'CERT_PARSE_FAILED'               // X.509 certificate could not be parsed
+  | 'TIMEOUT'                         // ResolveOptions.timeout elapsed
+  | 'ABORTED'                         // ResolveOptions.signal was aborted
+  | 'UNKNOWN';                        // Anything else
+
+/**
+ * Step of the resolution in which an error occurred
+ */
+export type ResolutionPhase =
+  | 'input'
+  | 'dns'
+  | 'service-group'
+  | 'service-metadata'
+  | 'business-card'
+  | 'certificate';
+
+export interface SMPResolverErrorContext {
+  phase?: ResolutionPhase;
+  participantId?: string;
+  domain?: string;       // DNS name queried
+  url?: string;          // SMP resource or origin
+  statusCode?: number;   // HTTP status returned by the SMP
+}
+
+/**
+ * Base class of all errors thrown by the resolver
+ */
+export class SMPResolverError extends Error {
+  constructor(
+    readonly code: SMPResolverErrorCode,
+    message: string,
+    readonly context: SMPResolverErrorContext = {},
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = 'SMPResolverError';
+  }
+}
+
+/**
+ * Participant ID that is malformed, or rejected by a scheme validator (see `issue`)
+ */
+export class InvalidParticipantIdError extends SMPResolverError {
+  constructor(
+    participantId: string,
+    readonly issue?: IdentifierValidationIssue
+  ) {
+    super(
+      'INVALID_PARTICIPANT_ID',
+      issue
+        ? `Invalid participant ID ${participantId}: ${issue.message}`
+        : 'Invalid participant ID format. Expected: scheme:value',
+      { phase: 'input', participantId }
+    );
+    this.name = 'InvalidParticipantIdError';
+  }
+}
+
+export class DNSError extends SMPResolverError {
+  constructor(
+    code: 'DNS_NXDOMAIN' | 'DNS_TIMEOUT' | 'DNS_FAILURE',
+    message: string,
+    context: SMPResolverErrorContext = {},
+    options?: { cause?: unknown }
+  ) {
+    super(code, message, { phase: 'dns', ...context }, options);
+    this.name = 'DNSError';
+  }
+}
+
+/**
+ * Non-200 response from an SMP resource
+ */
+export class SMPHTTPError extends SMPResolverError {
+  constructor(
+    readonly statusCode: number,
+    context: SMPResolverErrorContext = {},
+    message = `SMP returned status ${statusCode}`
+  ) {
+    super('SMP_HTTP_STATUS', message, { ...context, statusCode });
+    this.name = 'SMPHTTPError';
+  }
+}
+
+export class SMPXMLError extends SMPResolverError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('SMP_XML_INVALID', message, {}, options);
+    this.name = 'SMPXMLError';
+  }
+}
+
+export class RedirectError extends SMPResolverError {
+  constructor(
+    code: 'REDIRECT_LIMIT' | 'REDIRECT_INVALID',
+    message: string,
+    context: SMPResolverErrorContext = {}
+  ) {
+    super(code, message, context);
+    this.name = 'RedirectError';
+  }
+}
+
+/**
+ * Destination SMP of a redirect did not sign with the certificate announced by CertificateUID
+ */
+export class RedirectCertificateError extends SMPResolverError {
+  constructor(readonly redirect: SMPRedirect) {
+    const check = redirect.certificateCheck;
+    super(
+      'REDIRECT_CERTIFICATE_MISMATCH',
+      check?.status === 'mismatch'
+        ? `SMP redirect certificate mismatch for ${redirect.to}: expected UID "${check.expectedUID}", destination SMP signed with "${check.actualUID}"`
+        : `SMP redirect certificate could not be verified for ${redirect.to}: destination signature is ${check?.signatureStatus}`,
+      { phase: 'service-metadata', url: redirect.to }
+    );
+    this.name = 'RedirectCertificateError';
+  }
+}
+
+export class CertificateParseError extends SMPResolverError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('CERT_PARSE_FAILED', message, { phase: 'certificate' }, options);
+    this.name = 'CertificateParseError';
+  }
+}
+
+/**
+ * Normalizes anything thrown during a resolution into an SMPResolverError
+ * Aborts are reported as TIMEOUT/ABORTED when the caller's signal caused them.
+ */
+export function toSMPResolverError(error: unknown, signal?: AbortSignal): SMPResolverError {
+  if (error instanceof SMPResolverError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (signal?.aborted) {
+    const isTimeout = (signal.reason as { name?: string } | undefined)?.name === 'TimeoutError';
+    return new SMPResolverError(isTimeout ? 'TIMEOUT' : 'ABORTED', message, {}, { cause: error });
+  }
+
+  return new SMPResolverError('UNKNOWN', message, {}, { cause: error });
+}
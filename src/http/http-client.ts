@@ -1,10 +1,32 @@
 import { Agent, request, Pool } from 'undici';
+import {
+  retry,
+  resolveRetryPolicy,
+  isTimeoutError,
+  type RetryPolicy
+} from '../resilience/retry.js';
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  type CircuitBreakerOptions,
+  type CircuitBreakerStats
+} from '../resilience/circuit-breaker.js';
+import type { ResolverInstrumentation } from '../instrumentation/instrumentation.js';
 
 export interface HTTPClientOptions {
   timeout?: number;
   userAgent?: string;
   maxConnections?: number;
   pipelining?: number;
+  retry?: RetryPolicy | false; // Retry policy for get() (default: 3 attempts)
+  circuitBreaker?: CircuitBreakerOptions | false; // Per-origin circuit breaker for get()
+  instrumentation?: ResolverInstrumentation; // Receives an event per GET request (incl. retries)
+}
+
+interface HTTPResponse {
+  statusCode: number;
+  headers: Record<string, string | string[]>;
+  body: string;
 }
 
 export class HTTPClient {
@@ -12,11 +34,18 @@ export class HTTPClient {
   private pools: Map<string, Pool>;
   private timeout: number;
   private userAgent: string;
+  private retryPolicy: Required<RetryPolicy>;
+  private circuitBreaker: CircuitBreaker | null;
+  private instrumentation?: ResolverInstrumentation;
 
   constructor(options: HTTPClientOptions = {}) {
     this.timeout = options.timeout ?? 30000;
     this.userAgent = options.userAgent ?? 'smp-resolver-ng/2.2.9';
     this.pools = new Map();
+    this.retryPolicy = resolveRetryPolicy(options.retry);
+    this.circuitBreaker =
+      options.circuitBreaker === false ? null : new CircuitBreaker(options.circuitBreaker);
+    this.instrumentation = options.instrumentation;
 
     this.agent = new Agent({
       connections: options.maxConnections ?? 100,
@@ -48,16 +77,63 @@ export class HTTPClient {
   }
 
   /**
-   * Performs HTTP GET request with connection pooling and retry on connection errors
+   * Performs HTTP GET request with the retry policy and the per-origin circuit breaker
+   * Network errors and retryable statuses are retried with backoff, timeouts only with
+   * retryTimeouts; when an origin keeps failing (errors or 5xx), further requests fail fast
+   * with CircuitOpenError.
+   * An aborted signal cancels the request (including the body download)
    */
   async get(
     url: string,
-    additionalHeaders: Record<string, string> = {}
-  ): Promise<{
-    statusCode: number;
-    headers: Record<string, string | string[]>;
-    body: string;
-  }> {
+    additionalHeaders: Record<string, string> = {},
+    signal?: AbortSignal
+  ): Promise<HTTPResponse> {
+    const origin = new URL(url).origin;
+
+    return retry(
+      async attempt => {
+        this.circuitBreaker?.assertCanRequest(origin);
+
+        try {
+          const response = await this.instrument(url, attempt, () =>
+            this.getOnce(url, additionalHeaders, signal)
+          );
+          if (response.statusCode >= 500) {
+            this.circuitBreaker?.recordFailure(origin);
+          } else {
+            this.circuitBreaker?.recordSuccess(origin);
+          }
+          return response;
+        } catch (error) {
+          // A cancelled request says nothing about the health of the SMP
+          if (signal?.aborted) {
+            this.circuitBreaker?.recordCancellation(origin);
+          } else {
+            this.circuitBreaker?.recordFailure(origin);
+          }
+          throw error;
+        }
+      },
+      this.retryPolicy,
+      {
+        isRetryableError: error =>
+          !(error instanceof CircuitOpenError) &&
+          (this.retryPolicy.retryTimeouts || !isTimeoutError(error)),
+        isRetryableResult: response =>
+          this.retryPolicy.retryableStatusCodes.includes(response.statusCode),
+        signal
+      }
+    );
+  }
+
+  /**
+   * Performs a single HTTP GET request with connection pooling and retry on connection errors
+   */
+  private async getOnce(
+    url: string,
+    additionalHeaders: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<HTTPResponse> {
     const parsed = new URL(url);
     const pool = this.getPool(parsed.origin);
 
@@ -72,7 +148,8 @@ export class HTTPClient {
         },
         dispatcher: pool,
         bodyTimeout: this.timeout,
-        headersTimeout: this.timeout
+        headersTimeout: this.timeout,
+        signal
       });
 
       const statusCode = response.statusCode;
@@ -115,7 +192,8 @@ export class HTTPClient {
             },
             dispatcher: freshPool,
             bodyTimeout: this.timeout,
-            headersTimeout: this.timeout
+            headersTimeout: this.timeout,
+            signal
           });
 
           const statusCode = response.statusCode;
@@ -137,12 +215,24 @@ export class HTTPClient {
   async getWithTimeout(
     url: string,
     timeoutMs: number,
-    additionalHeaders: Record<string, string> = {}
+    additionalHeaders: Record<string, string> = {},
+    signal?: AbortSignal
   ): Promise<{
     statusCode: number;
     headers: Record<string, string | string[]>;
     body: string;
   }> {
+    return this.instrument(url, 1, () =>
+      this.getOnceWithTimeout(url, timeoutMs, additionalHeaders, signal)
+    );
+  }
+
+  private async getOnceWithTimeout(
+    url: string,
+    timeoutMs: number,
+    additionalHeaders: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<HTTPResponse> {
     const parsed = new URL(url);
 
     // Create a temporary pool with the custom timeout
@@ -165,7 +255,8 @@ export class HTTPClient {
         },
         dispatcher: tempPool,
         bodyTimeout: timeoutMs,
-        headersTimeout: timeoutMs
+        headersTimeout: timeoutMs,
+        signal
       });
 
       const statusCode = response.statusCode;
@@ -204,6 +295,43 @@ export class HTTPClient {
     };
   }
 
+  /**
+   * Reports a single request to the instrumentation hooks
+   */
+  private async instrument(
+    url: string,
+    attempt: number,
+    request: () => Promise<HTTPResponse>
+  ): Promise<HTTPResponse> {
+    if (!this.instrumentation?.onHTTPRequest) {
+      return request();
+    }
+
+    const startTime = Date.now();
+    const startedAt = performance.now();
+    try {
+      const response = await request();
+      this.instrumentation.onHTTPRequest({
+        url,
+        attempt,
+        statusCode: response.statusCode,
+        bytes: Buffer.byteLength(response.body),
+        startTime,
+        durationMs: performance.now() - startedAt
+      });
+      return response;
+    } catch (error) {
+      this.instrumentation.onHTTPRequest({
+        url,
+        attempt,
+        startTime,
+        durationMs: performance.now() - startedAt,
+        error
+      });
+      throw error;
+    }
+  }
+
   /**
    * Closes all connection pools
    */
@@ -215,6 +343,13 @@ export class HTTPClient {
     this.pools.clear();
   }
 
+  /**
+   * Gets the state of origins with recent failures (open circuits fail fast)
+   */
+  getCircuitBreakerStats(): Record<string, CircuitBreakerStats> {
+    return this.circuitBreaker?.getStats() ?? {};
+  }
+
   /**
    * Gets statistics about connection pools
    */
@@ -1,4 +1,5 @@
 import type { HTTPClient } from './http-client.js';
+import { RedirectError } from '../errors/index.js';
 
 export interface RedirectOptions {
   maxRedirects?: number;
@@ -18,7 +19,10 @@ export class RedirectHandler {
    * Follows HTTP redirects according to PEPPOL spec
    * Note: Spec prefers SMP-level redirects over HTTP redirects
    */
-  async followRedirects(url: string): Promise<{
+  async followRedirects(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<{
     finalUrl: string;
     statusCode: number;
     body: string;
@@ -28,14 +32,18 @@ export class RedirectHandler {
     let redirectCount = 0;
 
     while (redirectCount <= this.maxRedirects) {
-      const response = await this.httpClient.get(currentUrl);
+      const response = await this.httpClient.get(currentUrl, {}, signal);
 
       // Check if it's a redirect
       if (response.statusCode >= 300 && response.statusCode < 400) {
         const location = this.getLocationHeader(response.headers);
 
         if (!location) {
-          throw new Error(`Redirect response missing Location header: ${currentUrl}`);
+          throw new RedirectError(
+            'REDIRECT_INVALID',
+            `Redirect response missing Location header: ${currentUrl}`,
+            { url: currentUrl }
+          );
         }
 
         // Resolve relative URLs
@@ -43,7 +51,11 @@ export class RedirectHandler {
         redirectCount++;
 
         if (redirectCount > this.maxRedirects) {
-          throw new Error(`Maximum redirects (${this.maxRedirects}) exceeded`);
+          throw new RedirectError(
+            'REDIRECT_LIMIT',
+            `Maximum redirects (${this.maxRedirects}) exceeded`,
+            { url }
+          );
         }
 
         continue;
@@ -58,7 +70,11 @@ export class RedirectHandler {
       };
     }
 
-    throw new Error(`Redirect loop detected after ${redirectCount} redirects`);
+    throw new RedirectError(
+      'REDIRECT_LIMIT',
+      `Redirect loop detected after ${redirectCount} redirects`,
+      { url }
+    );
   }
 
   /**
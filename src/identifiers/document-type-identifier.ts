@@ -0,0 +1,341 @@
+import { DocumentTypeLookup } from '../data/document-types.js';
+import type { DocumentType, DocumentSyntax, DocumentTypeInfo } from '../types/index.js';
+
+/**
+ * Document type identifier scheme used by Peppol
+ */
+export const DOCUMENT_TYPE_IDENTIFIER_SCHEME = 'busdox-docid-qns';
+
+/**
+ * Document type identifier scheme of registrations covering every customization ID that starts
+ * with the registered one when it ends with "*" (e.g. `...Invoice##urn:peppol:pint:billing-1*::2.1`)
+ */
+export const DOCUMENT_TYPE_WILDCARD_SCHEME = 'peppol-doctype-wildcard';
+
+const SYNTAX_NAMESPACES: Array<[prefix: string, syntax: DocumentSyntax]> = [
+  ['urn:oasis:names:specification:ubl:schema:xsd:', 'UBL'],
+  ['urn:un:unece:uncefact:data:standard:', 'CII']
+];
+
+// Peppol BIS specifications, as referenced from customization IDs
+const BIS_PATTERNS: RegExp[] = [
+  /^urn:fdc:peppol\.eu:2017:poacc:([a-z_]+):(\d+(?:\.\d+)*)$/, // BIS 3 (Billing, Self-Billing)
+  /^urn:fdc:peppol\.eu:poacc:trns:([a-z_]+):(\d+(?:\.\d+)*)$/, // BIS 3 post-award transactions
+  /urn:www\.peppol\.eu:bis:peppol(\w+):ver(\d+(?:\.\d+)*)$/ // BIS 1 and 2 (e.g. 4A, 5A)
+];
+
+function formatBISName(name: string): string {
+  return name
+    .split('_')
+    .map(word => (/^\d/.test(word) ? word.toUpperCase() : word[0].toUpperCase() + word.slice(1)))
+    .join(' ');
+}
+
+/**
+ * Finds the Peppol BIS a customization ID claims compliance with
+ * Customization IDs chain specifications with "#compliant#", "#conformant#" or "#extended#".
+ */
+function findBIS(customizationId: string): { name: string; version: string } | undefined {
+  for (const part of customizationId.split('#')) {
+    for (const pattern of BIS_PATTERNS) {
+      const match = part.match(pattern);
+      if (match) {
+        return { name: formatBISName(match[1]), version: match[2] };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Document type identifier, split into its parts when it follows the busdox-docid-qns syntax
+ * `{root namespace}::{local element name}##{customization ID}::{version}`
+ *
+ * @example
+ * const docType = DocumentTypeIdentifier.parse(
+ *   'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2::Invoice##' +
+ *     'urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0::2.1'
+ * );
+ * docType.syntax;     // 'UBL'
+ * docType.localName;  // 'Invoice'
+ * docType.bisName;    // 'Billing'
+ * docType.bisVersion; // '3.0'
+ *
+ * const wildcard = DocumentTypeIdentifier.parse(
+ *   'peppol-doctype-wildcard::urn:oasis:names:specification:ubl:schema:xsd:Invoice-2::Invoice##' +
+ *     'urn:cen.eu:en16931:2017*::2.1'
+ * );
+ * wildcard.matches(docType); // true
+ */
+export class DocumentTypeIdentifier {
+  readonly rootNamespace?: string; // e.g. "urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"
+  readonly localName?: string; // Root element name (e.g. "Invoice")
+  readonly customizationId?: string;
+  readonly version?: string; // Syntax version (e.g. "2.1", "D16B")
+  readonly syntax?: DocumentSyntax;
+  readonly bisName?: string; // Peppol BIS the customization complies with (e.g. "Billing")
+  readonly bisVersion?: string;
+
+  constructor(
+    readonly scheme: string,
+    readonly value: string
+  ) {
+    const match = value.match(/^(.+?)::([^:#]+)##(.+)::([^:]+)$/);
+    if (!match) {
+      return;
+    }
+
+    [, this.rootNamespace, this.localName, this.customizationId, this.version] = match;
+    this.syntax = SYNTAX_NAMESPACES.find(([prefix]) => this.rootNamespace!.startsWith(prefix))?.[1];
+
+    const bis = findBIS(this.customizationId.replace(/\*$/, ''));
+    if (bis) {
+      this.bisName = bis.name;
+      this.bisVersion = bis.version;
+    }
+  }
+
+  /**
+   * Parses a document type ID with or without scheme prefix ("busdox-docid-qns::…"),
+   * percent-encoded as in SMP URLs or not
+   */
+  static parse(input: string): DocumentTypeIdentifier {
+    let text = input;
+    if (text.includes('%')) {
+      try {
+        text = decodeURIComponent(text);
+      } catch {
+        // Not percent-encoded after all
+      }
+    }
+
+    // Schemes contain no colon, root namespaces always do
+    const schemeMatch = text.match(/^([^:]+)::(.+)$/);
+    return schemeMatch
+      ? new DocumentTypeIdentifier(schemeMatch[1], schemeMatch[2])
+      : new DocumentTypeIdentifier(DOCUMENT_TYPE_IDENTIFIER_SCHEME, text);
+  }
+
+  /**
+   * Finds the registration a sender must use for the requested document type, following the
+   * Peppol policy: an exact busdox-docid-qns registration wins, otherwise the matching
+   * peppol-doctype-wildcard registration with the longest customization ID
+   */
+  static findBestMatch(
+    requested: string | DocumentTypeIdentifier,
+    registered: DocumentTypeIdentifier[]
+  ): DocumentTypeIdentifier | undefined {
+    const target = toDocumentTypeIdentifier(requested);
+
+    const exact = registered.find(
+      candidate => candidate.scheme === target.scheme && candidate.value === target.value
+    );
+    if (exact) {
+      return exact;
+    }
+
+    let best: DocumentTypeIdentifier | undefined;
+    for (const candidate of registered) {
+      if (
+        candidate.isWildcard &&
+        candidate.matches(target) &&
+        (!best || candidate.customizationPrefix.length > best.customizationPrefix.length)
+      ) {
+        best = candidate;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Whether this is a peppol-doctype-wildcard identifier
+   */
+  get isWildcard(): boolean {
+    return this.scheme === DOCUMENT_TYPE_WILDCARD_SCHEME;
+  }
+
+  // Wildcard whose customization ID ends with "*", covering every customization ID starting with it
+  private get isPrefixWildcard(): boolean {
+    return this.isWildcard && !!this.customizationId?.endsWith('*');
+  }
+
+  // Customization ID without the trailing "*" of wildcards
+  private get customizationPrefix(): string {
+    return (this.customizationId ?? '').replace(/\*$/, '');
+  }
+
+  /**
+   * Whether this registration covers the requested document type
+   * Wildcards ending with "*" cover every busdox-docid-qns ID with the same root namespace,
+   * local name and version whose customization ID starts with theirs; wildcards without "*"
+   * cover the busdox-docid-qns ID with the same value. Anything else must match exactly.
+   */
+  matches(requested: string | DocumentTypeIdentifier): boolean {
+    const target = toDocumentTypeIdentifier(requested);
+    if (target.scheme === this.scheme && target.value === this.value) {
+      return true;
+    }
+    if (!this.isWildcard || target.scheme !== DOCUMENT_TYPE_IDENTIFIER_SCHEME) {
+      return false;
+    }
+    if (!this.isPrefixWildcard) {
+      return target.value === this.value;
+    }
+
+    return (
+      this.localName !== undefined &&
+      target.rootNamespace === this.rootNamespace &&
+      target.localName === this.localName &&
+      target.version === this.version &&
+      target.customizationId!.startsWith(this.customizationPrefix)
+    );
+  }
+
+  /**
+   * URI form "scheme::value"
+   */
+  toURI(): string {
+    return `${this.scheme}::${this.value}`;
+  }
+
+  /**
+   * Percent-encoded URI form, for use as a path segment of SMP URLs
+   */
+  toURLSegment(): string {
+    return encodeURIComponent(this.toURI());
+  }
+
+  toString(): string {
+    return this.toURI();
+  }
+
+  // The code list registers wildcards without their trailing "*"
+  private get codeListValue(): string {
+    return this.isWildcard && this.localName
+      ? `${this.rootNamespace}::${this.localName}##${this.customizationPrefix}::${this.version}`
+      : this.value;
+  }
+
+  /**
+   * Code list entry (category, domain community, process IDs, state) of this document type
+   */
+  getCodeListInfo(
+    lookup: DocumentTypeLookup = DocumentTypeLookup.getInstance()
+  ): DocumentTypeInfo | undefined {
+    return lookup.getDocumentType(this.codeListValue, this.scheme);
+  }
+
+  /**
+   * Readable name: the code list name when known, otherwise built from the parsed parts
+   * (e.g. "Invoice (BIS Billing 3.0, UBL)")
+   */
+  getFriendlyName(lookup: DocumentTypeLookup = DocumentTypeLookup.getInstance()): string {
+    const listed = lookup.getFriendlyName(this.codeListValue);
+    if (listed) {
+      return listed;
+    }
+
+    if (!this.localName) {
+      // Not in busdox-docid-qns syntax: last meaningful part
+      const parts = this.value.split('::');
+      return parts[parts.length - 1] || this.value;
+    }
+
+    const details = [
+      this.bisName && `BIS ${this.bisName} ${this.bisVersion}`,
+      this.syntax,
+      this.isWildcard && 'wildcard'
+    ].filter(Boolean);
+    return details.length > 0 ? `${this.localName} (${details.join(', ')})` : this.localName;
+  }
+}
+
+function toDocumentTypeIdentifier(input: string | DocumentTypeIdentifier): DocumentTypeIdentifier {
+  return input instanceof DocumentTypeIdentifier ? input : DocumentTypeIdentifier.parse(input);
+}
+
+/**
+ * Friendly name, syntax, BIS and code list entry of a document type, as reported on DocumentType
+ */
+export function describeDocumentType(
+  documentIdentifier: { scheme: string; value: string },
+  lookup: DocumentTypeLookup = DocumentTypeLookup.getInstance()
+): Pick<DocumentType, 'friendlyName' | 'syntax' | 'bisName' | 'bisVersion' | 'codeListInfo'> {
+  const identifier = new DocumentTypeIdentifier(
+    documentIdentifier.scheme,
+    documentIdentifier.value
+  );
+  const codeListInfo = identifier.getCodeListInfo(lookup);
+  return {
+    friendlyName: identifier.getFriendlyName(lookup),
+    ...(identifier.syntax && { syntax: identifier.syntax }),
+    ...(identifier.bisName && { bisName: identifier.bisName, bisVersion: identifier.bisVersion }),
+    ...(codeListInfo && { codeListInfo })
+  };
+}
+
+/**
+ * Code list findings about the document types a participant registered: deprecated and removed
+ * entries, Peppol document types missing from the code list, processes the code list does not
+ * pair with the document type, and categories for which only deprecated or removed document
+ * types are registered
+ * Identifiers outside the busdox-docid-qns syntax cannot be in the code list and are not reported.
+ */
+export function checkDocumentTypes(
+  documentTypes: DocumentType[],
+  lookup: DocumentTypeLookup = DocumentTypeLookup.getInstance()
+): string[] {
+  const warnings = new Set<string>();
+  const categories = new Map<string, boolean>(); // "Category (community)" → has an active entry
+
+  for (const docType of documentTypes) {
+    const info = docType.codeListInfo;
+    if (!info) {
+      const { scheme, value } = docType.documentIdentifier;
+      if (new DocumentTypeIdentifier(scheme, value).localName) {
+        warnings.add(
+          `Document type ${scheme}::${value} is not in the Peppol code list ` +
+            `(v${lookup.getVersion()})`
+        );
+      }
+      continue;
+    }
+
+    if (info.state === 'deprecated') {
+      const removal = info.removalDate ? ` (removal date ${info.removalDate})` : '';
+      warnings.add(
+        `Document type "${info.name}" is deprecated since code list release ${info.deprecationRelease}${removal}`
+      );
+    } else if (info.state === 'removed') {
+      warnings.add(
+        `Document type "${info.name}" was removed from the code list on ${info.removalDate}`
+      );
+    }
+
+    // Entries without process IDs (or with "none") do not constrain the process
+    const expected = info.processIds.filter(process => process.value !== 'none');
+    for (const { processIdentifier } of expected.length > 0 ? docType.processes : []) {
+      const { scheme, value } = processIdentifier;
+      if (!expected.some(process => process.scheme === scheme && process.value === value)) {
+        warnings.add(
+          `Document type "${info.name}" is registered with process ${scheme}::${value}, ` +
+            'which the code list does not pair with it'
+        );
+      }
+    }
+
+    if (info.category) {
+      const category = info.domainCommunity
+        ? `${info.category} (${info.domainCommunity})`
+        : info.category;
+      categories.set(category, categories.get(category) || info.state === 'active');
+    }
+  }
+
+  for (const [category, hasActive] of categories) {
+    if (!hasActive) {
+      warnings.add(`Only deprecated or removed ${category} document types are registered`);
+    }
+  }
+  return [...warnings];
+}
@@ -0,0 +1,31 @@
+/**
+ * Participant identifier scheme used by Peppol (ISO 6523 ICD based identifiers)
+ */
+export const PARTICIPANT_IDENTIFIER_SCHEME = 'iso6523-actorid-upis';
+
+interface IdentifierSchemeRules {
+  caseInsensitive: boolean; // Values are compared, hashed and put in URLs in lower case
+}
+
+// Peppol Policy for use of Identifiers: iso6523-actorid-upis values are case insensitive.
+// Identifier schemes of private networks keep their value as given.
+const SCHEME_RULES: Record<string, IdentifierSchemeRules> = {
+  [PARTICIPANT_IDENTIFIER_SCHEME]: { caseInsensitive: true }
+};
+
+/**
+ * Brings a participant ID ("scheme:value") into the canonical form of its identifier scheme
+ * Surrounding whitespace is removed; for iso6523-actorid-upis the ID is lowercased, so that
+ * "9925:BE0843766574" and "9925:be0843766574" hash to the same SML name.
+ *
+ * @param participantId - Participant ID as entered (e.g., "9925:BE0843766574")
+ * @param identifierScheme - Participant identifier scheme (default: iso6523-actorid-upis)
+ * @returns Normalized participant ID (e.g., "9925:be0843766574")
+ */
+export function normalizeParticipantId(
+  participantId: string,
+  identifierScheme: string = PARTICIPANT_IDENTIFIER_SCHEME
+): string {
+  const trimmed = participantId.trim();
+  return SCHEME_RULES[identifierScheme]?.caseInsensitive ? trimmed.toLowerCase() : trimmed;
+}
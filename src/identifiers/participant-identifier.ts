@@ -0,0 +1,128 @@
+import { InvalidParticipantIdError } from '../errors/index.js';
+import type { ParticipantIdentifier } from '../types/index.js';
+import { normalizeParticipantId, PARTICIPANT_IDENTIFIER_SCHEME } from './normalization.js';
+
+/**
+ * Participant identifier: identifier scheme plus value, as in SMP XML
+ * (`<ParticipantIdentifier scheme="iso6523-actorid-upis">0208:0843766574</ParticipantIdentifier>`)
+ *
+ * Implements the structural `ParticipantIdentifier` interface; every method taking a participant
+ * also accepts a plain `{ scheme, value }` object.
+ *
+ * Accepts every notation in use:
+ * - bare `0208:0843766574` (iso6523-actorid-upis implied)
+ * - URI `iso6523-actorid-upis::0208:0843766574` (ServiceGroup hrefs, business cards)
+ * - percent-encoded `iso6523-actorid-upis%3A%3A0208%3A0843766574` (SMP URL path segments)
+ *
+ * @example
+ * const id = ParticipantId.parse('iso6523-actorid-upis::9925:BE0843766574');
+ * id.icd;            // '9925'
+ * id.toURLSegment(); // 'iso6523-actorid-upis%3A%3A9925%3ABE0843766574'
+ * id.equals('9925:be0843766574'); // true (iso6523-actorid-upis is case insensitive)
+ */
+export class ParticipantId {
+  constructor(
+    readonly scheme: string, // Participant identifier scheme (e.g. "iso6523-actorid-upis")
+    readonly value: string // Identifier within the scheme (e.g. "0208:0843766574")
+  ) {}
+
+  /**
+   * Parses any participant ID notation, throwing InvalidParticipantIdError when malformed
+   */
+  static parse(input: string | ParticipantIdentifier): ParticipantId {
+    const identifier = ParticipantId.tryParse(input);
+    if (!identifier) {
+      throw new InvalidParticipantIdError(
+        typeof input === 'string' ? input : `${input.scheme}::${input.value}`
+      );
+    }
+    return identifier;
+  }
+
+  /**
+   * Parses any participant ID notation, returning null when malformed
+   */
+  static tryParse(input: string | ParticipantIdentifier): ParticipantId | null {
+    if (input instanceof ParticipantId) {
+      return input;
+    }
+    if (typeof input !== 'string') {
+      return input.scheme && input.value ? new ParticipantId(input.scheme, input.value) : null;
+    }
+
+    let text = input;
+    if (text.includes('%')) {
+      try {
+        text = decodeURIComponent(text);
+      } catch {
+        return null;
+      }
+    }
+
+    const separator = text.indexOf('::');
+    if (separator !== -1) {
+      const scheme = text.substring(0, separator);
+      const value = text.substring(separator + 2);
+      return scheme && value ? new ParticipantId(scheme, value) : null;
+    }
+
+    // Bare form: the value itself is "icd:id", only the first colon separates the two
+    const colonIndex = text.indexOf(':');
+    if (colonIndex <= 0 || colonIndex === text.length - 1) {
+      return null;
+    }
+    return new ParticipantId(PARTICIPANT_IDENTIFIER_SCHEME, text);
+  }
+
+  /**
+   * ISO 6523 ICD code of an iso6523-actorid-upis value (e.g. "0208"), '' when absent
+   */
+  get icd(): string {
+    const colonIndex = this.value.indexOf(':');
+    return colonIndex === -1 ? '' : this.value.substring(0, colonIndex);
+  }
+
+  /**
+   * Value without its ICD code (e.g. "0843766574"), colons included; '' when absent
+   */
+  get localValue(): string {
+    const colonIndex = this.value.indexOf(':');
+    return colonIndex === -1 ? '' : this.value.substring(colonIndex + 1);
+  }
+
+  /**
+   * URI form "scheme::value"
+   */
+  toURI(): string {
+    return `${this.scheme}::${this.value}`;
+  }
+
+  /**
+   * Percent-encoded URI form, for use as a path segment of SMP URLs
+   */
+  toURLSegment(): string {
+    return encodeURIComponent(this.toURI());
+  }
+
+  toString(): string {
+    return this.toURI();
+  }
+
+  /**
+   * Compares two identifiers by scheme and value, applying the case rules of the scheme
+   * (iso6523-actorid-upis values are case insensitive)
+   */
+  equals(other: string | ParticipantIdentifier): boolean {
+    const identifier = ParticipantId.tryParse(other);
+    if (!identifier) {
+      return false;
+    }
+
+    const scheme = this.scheme.toLowerCase();
+    return (
+      scheme === identifier.scheme.toLowerCase() &&
+      normalizeParticipantId(this.value, scheme) ===
+        normalizeParticipantId(identifier.value, scheme)
+    );
+  }
+}
@@ -0,0 +1,269 @@
+import type { ParticipantIdentifier } from '../types/index.js';
+import { ParticipantId } from './participant-identifier.js';
+import { PARTICIPANT_IDENTIFIER_SCHEME } from './normalization.js';
+
+/**
+ * Why a participant identifier was rejected
+ */
+export type IdentifierValidationReason =
+  | 'invalid-format' // Not in scheme:value format
+  | 'invalid-characters' // Value contains characters the scheme does not allow
+  | 'invalid-length' // Value has the wrong number of characters
+  | 'invalid-check-digit' // Check digit(s) do not match the rest of the value
+  | 'invalid-country-prefix'; // VAT number without the country code of the scheme
+
+export interface IdentifierValidationIssue {
+  reason: IdentifierValidationReason;
+  message: string; // Actionable explanation for end users
+}
+
+export interface IdentifierValidationResult {
+  valid: boolean;
+  participantId: string;
+  scheme?: string; // ICD code (e.g. '0208')
+  issue?: IdentifierValidationIssue; // Set when valid is false
+  checked: boolean; // False when no validator is registered for the scheme
+}
+
+/**
+ * Validates the value part of a participant ID, returning undefined when it is valid
+ */
+export type SchemeValidator = (value: string) => IdentifierValidationIssue | undefined;
+
+function checkDigits(
+  value: string,
+  length: number,
+  name: string
+): IdentifierValidationIssue | undefined {
+  if (!/^\d+$/.test(value)) {
+    return { reason: 'invalid-characters', message: `${name} must only contain digits` };
+  }
+  if (value.length !== length) {
+    return {
+      reason: 'invalid-length',
+      message: `${name} must have ${length} digits, got ${value.length}`
+    };
+  }
+  return undefined;
+}
+
+function checkDigitMismatch(name: string): IdentifierValidationIssue {
+  return {
+    reason: 'invalid-check-digit',
+    message: `${name} check digit does not match, the number is probably mistyped`
+  };
+}
+
+/**
+ * Belgian enterprise number: 10 digits, the last two are 97 - (first eight mod 97)
+ */
+function validateKBO(value: string, name = 'Belgian enterprise number (KBO/BCE)') {
+  const issue = checkDigits(value, 10, name);
+  if (issue) {
+    return issue;
+  }
+  const expected = 97 - (Number(value.slice(0, 8)) % 97);
+  return expected === Number(value.slice(8)) ? undefined : checkDigitMismatch(name);
+}
+
+/**
+ * GS1 Global Location Number: 13 digits, mod-10 with weights 3 and 1 from the right
+ */
+function validateGLN(value: string) {
+  const name = 'GLN';
+  const issue = checkDigits(value, 13, name);
+  if (issue) {
+    return issue;
+  }
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += Number(value[11 - i]) * (i % 2 === 0 ? 3 : 1);
+  }
+  return (10 - (sum % 10)) % 10 === Number(value[12]) ? undefined : checkDigitMismatch(name);
+}
+
+/**
+ * Norwegian organization number: 9 digits, mod-11 with weights 3 2 7 6 5 4 3 2
+ */
+function validateNorwegianOrgNumber(value: string) {
+  const name = 'Norwegian organization number';
+  const issue = checkDigits(value, 9, name);
+  if (issue) {
+    return issue;
+  }
+  const weights = [3, 2, 7, 6, 5, 4, 3, 2];
+  const sum = weights.reduce((total, weight, i) => total + weight * Number(value[i]), 0);
+  const remainder = sum % 11;
+  const expected = remainder === 0 ? 0 : 11 - remainder;
+  return expected === Number(value[8]) ? undefined : checkDigitMismatch(name);
+}
+
+/**
+ * Swedish organization number: 10 digits with a Luhn check digit
+ */
+function validateSwedishOrgNumber(value: string) {
+  const name = 'Swedish organization number';
+  const issue = checkDigits(value, 10, name);
+  if (issue) {
+    return issue;
+  }
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    let digit = Number(value[i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0 ? undefined : checkDigitMismatch(name);
+}
+
+/**
+ * Dutch Chamber of Commerce (KvK) number: 8 digits, no check digit
+ */
+function validateKvK(value: string) {
+  return checkDigits(value, 8, 'Dutch KvK number');
+}
+
+/**
+ * VAT number schemes (99xx): value starts with the country code of the scheme
+ */
+function vatNumber(countryCodes: string[], validateNumber?: SchemeValidator): SchemeValidator {
+  return value => {
+    const prefix = countryCodes.find(code => value.toLowerCase().startsWith(code.toLowerCase()));
+    if (!prefix) {
+      return {
+        reason: 'invalid-country-prefix',
+        message: `VAT number must start with the country code "${countryCodes[0]}"`
+      };
+    }
+    const number = value.slice(prefix.length);
+    if (!/^[a-zA-Z0-9]{2,}$/.test(number)) {
+      return {
+        reason: 'invalid-characters',
+        message: `VAT number must be "${countryCodes[0]}" followed by letters and digits`
+      };
+    }
+    return validateNumber?.(number);
+  };
+}
+
+const VAT_COUNTRY_CODES: Record<string, string[]> = {
+  '9914': ['AT'],
+  '9920': ['ES'],
+  '9922': ['AD'],
+  '9923': ['AL'],
+  '9924': ['BA'],
+  '9926': ['BG'],
+  '9927': ['CHE', 'CH'],
+  '9928': ['CY'],
+  '9929': ['CZ'],
+  '9930': ['DE'],
+  '9931': ['EE'],
+  '9932': ['GB'],
+  '9933': ['EL', 'GR'],
+  '9934': ['HR'],
+  '9935': ['IE'],
+  '9936': ['LI'],
+  '9937': ['LT'],
+  '9938': ['LU'],
+  '9939': ['LV'],
+  '9940': ['MC'],
+  '9941': ['ME'],
+  '9942': ['MK'],
+  '9943': ['MT'],
+  '9944': ['NL'],
+  '9945': ['PL'],
+  '9946': ['PT'],
+  '9947': ['RO'],
+  '9948': ['RS'],
+  '9949': ['SI'],
+  '9950': ['SK'],
+  '9951': ['SM'],
+  '9952': ['TR'],
+  '9953': ['VA'],
+  '9957': ['FR']
+};
+
+/**
+ * Validators shipped with the library, keyed by ICD scheme
+ */
+export const DEFAULT_SCHEME_VALIDATORS: Readonly<Record<string, SchemeValidator>> = {
+  '0007': validateSwedishOrgNumber,
+  '0088': validateGLN,
+  '0106': validateKvK,
+  '0192': validateNorwegianOrgNumber,
+  '0208': value => validateKBO(value),
+  '9925': vatNumber(['BE'], number => validateKBO(number, 'Belgian VAT number')),
+  ...Object.fromEntries(
+    Object.entries(VAT_COUNTRY_CODES).map(([scheme, codes]) => [scheme, vatNumber(codes)])
+  )
+};
+
+/**
+ * Registry of participant identifier validators keyed by ICD scheme
+ * Schemes without a validator are accepted as long as the ID has the scheme:value format.
+ *
+ * @example
+ * const validators = new IdentifierValidatorRegistry().register('0184', value =>
+ *   /^DK\d{8}$/i.test(value) ? undefined : { reason: 'invalid-format', message: 'Expected DK + 8 digits' }
+ * );
+ * validators.validate('0208:0843766574').valid; // true
+ */
+export class IdentifierValidatorRegistry {
+  private validators: Map<string, SchemeValidator>;
+
+  constructor(validators: Record<string, SchemeValidator> = DEFAULT_SCHEME_VALIDATORS) {
+    this.validators = new Map(Object.entries(validators));
+  }
+
+  /**
+   * Adds or replaces the validator of a scheme
+   */
+  register(scheme: string, validator: SchemeValidator): this {
+    this.validators.set(scheme, validator);
+    return this;
+  }
+
+  has(scheme: string): boolean {
+    return this.validators.has(scheme);
+  }
+
+  validate(input: string | ParticipantIdentifier): IdentifierValidationResult {
+    const identifier = ParticipantId.tryParse(input);
+    const participantId =
+      typeof input === 'string'
+        ? input
+        : (identifier?.toURI() ?? `${input.scheme}::${input.value}`);
+
+    // Validators are keyed by ICD code, which only iso6523-actorid-upis identifiers carry
+    if (identifier && identifier.scheme.toLowerCase() !== PARTICIPANT_IDENTIFIER_SCHEME) {
+      return { valid: true, participantId, checked: false };
+    }
+
+    if (!identifier?.icd || !identifier.localValue) {
+      return {
+        valid: false,
+        participantId,
+        checked: true,
+        issue: {
+          reason: 'invalid-format',
+          message: 'Participant ID must be in scheme:value format (e.g. 0208:0843766574)'
+        }
+      };
+    }
+
+    const validator = this.validators.get(identifier.icd);
+    const issue = validator?.(identifier.localValue);
+    return {
+      valid: !issue,
+      participantId,
+      scheme: identifier.icd,
+      checked: validator !== undefined,
+      ...(issue && { issue })
+    };
+  }
+}
@@ -1,6 +1,11 @@
 export { SMPResolver } from './resolver.js';
 export * from './types/index.js';
-export { NAPTRResolver } from './dns/naptr-resolver.js';
+export {
+  NAPTRResolver,
+  type SMLLookupStrategy,
+  type SMLLookupMechanism,
+  type SMPLocation
+} from './dns/naptr-resolver.js';
 
 // Library version — derived from package.json (single source of truth)
 import pkg from '../package.json' with { type: 'json' };
@@ -9,6 +14,7 @@ export const VERSION = pkg.version;
 // Re-export utility functions
 export {
   hashParticipantId,
+  hashParticipantIdMD5,
   validateParticipantId,
   parseParticipantId
 } from './sml/participant-hash.js';
@@ -20,5 +26,118 @@ export {
   type ExtendedEndpointResult
 } from './endpoints/classifier.js';
 
+// Participant identifiers
+export { ParticipantId } from './identifiers/participant-identifier.js';
+export {
+  DocumentTypeIdentifier,
+  DOCUMENT_TYPE_IDENTIFIER_SCHEME,
+  DOCUMENT_TYPE_WILDCARD_SCHEME
+} from './identifiers/document-type-identifier.js';
+
+// Identifier normalization
+export {
+  normalizeParticipantId,
+  PARTICIPANT_IDENTIFIER_SCHEME
+} from './identifiers/normalization.js';
+
+// Participant identifier schemes (ICD code list)
+export {
+  ParticipantIdentifierSchemeLookup,
+  PEPPOL_PARTICIPANT_IDENTIFIER_SCHEME_CODE_LIST,
+  type ParticipantIdentifierSchemeCodeList,
+  type ParticipantIdentifierSchemeEntry
+} from './data/participant-identifier-schemes.js';
+
+// Document type code list
+export {
+  DocumentTypeLookup,
+  PEPPOL_DOCUMENT_TYPE_CODE_LIST,
+  type DocumentTypeCodeList,
+  type DocumentTypeEntry
+} from './data/document-types.js';
+
+// Identifier validation
+export {
+  IdentifierValidatorRegistry,
+  DEFAULT_SCHEME_VALIDATORS,
+  type IdentifierValidationReason,
+  type IdentifierValidationIssue,
+  type IdentifierValidationResult,
+  type SchemeValidator
+} from './identifiers/validators.js';
+
+// Network profiles
+export {
+  NETWORK_PROFILES,
+  DEFAULT_NETWORK,
+  type NetworkName,
+  type NetworkProfile,
+  type NetworkCodeLists
+} from './network/profiles.js';
+
 // Certificate parsing
 export { CertificateParser } from './certificate/parser.js';
+
+// Resolution cache
+export type { CacheStore } from './cache/cache-store.js';
+export { MemoryCacheStore, type MemoryCacheStoreOptions } from './cache/memory-cache-store.js';
+export { FileCacheStore, type FileCacheStoreOptions } from './cache/file-cache-store.js';
+
+// Retries and circuit breaking
+export { DEFAULT_RETRY_POLICY, type RetryPolicy } from './resilience/retry.js';
+export {
+  CircuitOpenError,
+  type CircuitBreakerOptions,
+  type CircuitBreakerStats,
+  type CircuitState
+} from './resilience/circuit-breaker.js';
+
+// Typed errors
+export {
+  SMPResolverError,
+  InvalidParticipantIdError,
+  DNSError,
+  SMPHTTPError,
+  SMPXMLError,
+  RedirectError,
+  RedirectCertificateError,
+  CertificateParseError,
+  type SMPResolverErrorCode,
+  type SMPResolverErrorContext,
+  type ResolutionPhase
+} from './errors/index.js';
+
+// Instrumentation and tracing
+export type {
+  ResolverInstrumentation,
+  ResolutionOperation,
+  InstrumentationEvent,
+  ResolutionStartEvent,
+  ResolutionEndEvent,
+  DNSQueryStartEvent,
+  DNSQueryEndEvent,
+  HTTPRequestEvent,
+  XMLParseEvent,
+  CertificateParseEvent,
+  BusinessCardAttemptEvent
+} from './instrumentation/instrumentation.js';
+export {
+  createTracingInstrumentation,
+  RecordingTracer,
+  SpanKind,
+  SpanStatusCode,
+  type TracerLike,
+  type SpanLike,
+  type SpanOptionsLike,
+  type SpanAttributes,
+  type SpanAttributeValue,
+  type RecordedSpan,
+  type TracingInstrumentationOptions
+} from './instrumentation/tracing.js';
+
+// Prometheus metrics
+export {
+  PrometheusMetrics,
+  PROMETHEUS_CONTENT_TYPE,
+  type PrometheusMetricsOptions
+} from './metrics/prometheus.js';
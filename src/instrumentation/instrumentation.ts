@@ -0,0 +1,250 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { SMPResolverErrorCode } from '../errors/index.js';
+import type { RegistrationStatus } from '../types/index.js';
+
+/**
+ * Public SMPResolver methods that start an instrumented resolution
+ */
+export type ResolutionOperation =
+  | 'resolve'
+  | 'getBusinessCard'
+  | 'getEndpointUrls'
+  | 'resolveCapabilities'
+  | 'canReceive';
+
+/**
+ * Fields added to every event emitted while a resolution is in progress
+ * Lets hooks correlate DNS/HTTP/parse events of concurrent resolutions (resolveMany, streams).
+ */
+export interface InstrumentationEvent {
+  resolutionId?: number;
+  participantId?: string;
+}
+
+export interface ResolutionStartEvent extends InstrumentationEvent {
+  resolutionId: number;
+  participantId: string;
+  operation: ResolutionOperation;
+  startTime: number; // Epoch ms
+}
+
+export interface ResolutionEndEvent extends ResolutionStartEvent {
+  durationMs: number;
+  registrationStatus?: RegistrationStatus; // resolve() only
+  errorCode?: SMPResolverErrorCode;
+  error?: unknown;
+}
+
+export interface DNSQueryStartEvent extends InstrumentationEvent {
+  domain: string;
+  recordType?: 'NAPTR' | 'CNAME'; // NAPTR unless the legacy CNAME lookup is used
+  startTime: number;
+}
+
+export interface DNSQueryEndEvent extends DNSQueryStartEvent {
+  durationMs: number; // Including retries
+  recordCount?: number; // 0 for NXDOMAIN
+  error?: unknown;
+}
+
+export interface HTTPRequestEvent extends InstrumentationEvent {
+  url: string;
+  attempt: number; // 1 for the first attempt, incremented on retries
+  statusCode?: number;
+  bytes?: number; // Response body size
+  startTime: number;
+  durationMs: number;
+  error?: unknown;
+}
+
+export interface XMLParseEvent extends InstrumentationEvent {
+  kind: 'service-group' | 'service-metadata';
+  bytes: number;
+  startTime: number;
+  durationMs: number;
+  error?: unknown;
+}
+
+export interface CertificateParseEvent extends InstrumentationEvent {
+  cached: boolean; // Served from the fingerprint cache
+  startTime: number;
+  durationMs: number;
+  error?: unknown;
+}
+
+export interface BusinessCardAttemptEvent extends InstrumentationEvent {
+  url: string;
+  statusCode?: number;
+  found: boolean;
+  startTime: number;
+  durationMs: number;
+  error?: unknown;
+}
+
+/**
+ * Lifecycle hooks called by SMPResolver and its components
+ * All hooks are optional and synchronous; exceptions thrown by a hook are ignored.
+ */
+export interface ResolverInstrumentation {
+  onResolutionStart?(event: ResolutionStartEvent): void;
+  onResolutionEnd?(event: ResolutionEndEvent): void;
+  onDNSQueryStart?(event: DNSQueryStartEvent): void;
+  onDNSQueryEnd?(event: DNSQueryEndEvent): void;
+  onHTTPRequest?(event: HTTPRequestEvent): void;
+  onXMLParse?(event: XMLParseEvent): void;
+  onCertificateParse?(event: CertificateParseEvent): void;
+  onBusinessCardAttempt?(event: BusinessCardAttemptEvent): void;
+}
+
+type HookName = keyof ResolverInstrumentation;
+type HookEvent<K extends HookName> = Parameters<NonNullable<ResolverInstrumentation[K]>>[0];
+
+// Unique across resolver instances sharing the same hooks
+let nextResolutionId = 1;
+
+interface ResolutionScope {
+  resolutionId: number;
+  participantId: string;
+  httpCalls: number;
+}
+
+/**
+ * Fans events out to the configured hooks, tagging them with the active resolution
+ * The resolution is tracked with AsyncLocalStorage, so components (NAPTRResolver, HTTPClient,
+ * CertificateParser) emit events without knowing which participant they are working for.
+ */
+export class InstrumentationDispatcher implements ResolverInstrumentation {
+  private hooks: ResolverInstrumentation[];
+  private scope = new AsyncLocalStorage<ResolutionScope>();
+
+  constructor(hooks: ResolverInstrumentation | ResolverInstrumentation[] = []) {
+    this.hooks = Array.isArray(hooks) ? hooks : [hooks];
+  }
+
+  /**
+   * Runs a public operation as a resolution, unless one is already active
+   * (resolve() calling getBusinessCard() stays a single resolution)
+   *
+   * @param describe - Derives registration status and error code from the outcome
+   */
+  async run<T>(
+    operation: ResolutionOperation,
+    participantId: string,
+    fn: () => Promise<T>,
+    describe?: (result: T) => Pick<ResolutionEndEvent, 'registrationStatus' | 'errorCode'>
+  ): Promise<T> {
+    if (this.scope.getStore()) {
+      return fn();
+    }
+
+    const start: ResolutionStartEvent = {
+      resolutionId: nextResolutionId++,
+      participantId,
+      operation,
+      startTime: Date.now()
+    };
+    const startedAt = performance.now();
+
+    const scope = { resolutionId: start.resolutionId, participantId, httpCalls: 0 };
+    return this.scope.run(scope, async () => {
+      this.onResolutionStart(start);
+      try {
+        const result = await fn();
+        this.onResolutionEnd({
+          ...start,
+          durationMs: performance.now() - startedAt,
+          ...describe?.(result)
+        });
+        return result;
+      } catch (error) {
+        this.onResolutionEnd({
+          ...start,
+          durationMs: performance.now() - startedAt,
+          errorCode: (error as { code?: SMPResolverErrorCode }).code,
+          error
+        });
+        throw error;
+      }
+    });
+  }
+
+  onResolutionStart(event: ResolutionStartEvent): void {
+    this.emit('onResolutionStart', event);
+  }
+
+  onResolutionEnd(event: ResolutionEndEvent): void {
+    this.emit('onResolutionEnd', event);
+  }
+
+  onDNSQueryStart(event: DNSQueryStartEvent): void {
+    this.emit('onDNSQueryStart', event);
+  }
+
+  onDNSQueryEnd(event: DNSQueryEndEvent): void {
+    this.emit('onDNSQueryEnd', event);
+  }
+
+  onHTTPRequest(event: HTTPRequestEvent): void {
+    const scope = this.scope.getStore();
+    if (scope) {
+      scope.httpCalls++;
+    }
+    this.emit('onHTTPRequest', event);
+  }
+
+  onXMLParse(event: XMLParseEvent): void {
+    this.emit('onXMLParse', event);
+  }
+
+  onCertificateParse(event: CertificateParseEvent): void {
+    this.emit('onCertificateParse', event);
+  }
+
+  onBusinessCardAttempt(event: BusinessCardAttemptEvent): void {
+    this.emit('onBusinessCardAttempt', event);
+  }
+
+  /**
+   * Number of HTTP requests made so far by the active resolution
+   */
+  getHTTPCallCount(): number {
+    return this.scope.getStore()?.httpCalls ?? 0;
+  }
+
+  private emit<K extends HookName>(hook: K, event: HookEvent<K>): void {
+    if (this.hooks.length === 0) {
+      return;
+    }
+
+    const scope = this.scope.getStore();
+    const tagged = scope
+      ? { resolutionId: scope.resolutionId, participantId: scope.participantId, ...event }
+      : event;
+    for (const hooks of this.hooks) {
+      try {
+        (hooks[hook] as ((event: HookEvent<K>) => void) | undefined)?.call(hooks, tagged);
+      } catch {
+        // Instrumentation must never break a resolution
+      }
+    }
+  }
+}
+
+/**
+ * Measures a synchronous step for an instrumentation event
+ */
+export function measure<T>(
+  step: () => T,
+  report: (timing: { startTime: number; durationMs: number; error?: unknown }) => void
+): T {
+  const startTime = Date.now();
+  const startedAt = performance.now();
+  try {
+    const result = step();
+    report({ startTime, durationMs: performance.now() - startedAt });
+    return result;
+  } catch (error) {
+    report({ startTime, durationMs: performance.now() - startedAt, error });
+    throw error;
+  }
+}
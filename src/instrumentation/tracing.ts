@@ -0,0 +1,267 @@
+import { randomBytes } from 'node:crypto';
+import type {
+  ResolverInstrumentation,
+  ResolutionEndEvent,
+  InstrumentationEvent
+} from './instrumentation.js';
+
+/**
+ * Minimal structural copies of the OpenTelemetry tracing API (@opentelemetry/api)
+ * A real OpenTelemetry Tracer satisfies TracerLike, so no dependency on the API package is needed.
+ */
+export type SpanAttributeValue = string | number | boolean;
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+// Same values as SpanKind and SpanStatusCode of @opentelemetry/api
+export const SpanKind = { INTERNAL: 0, SERVER: 1, CLIENT: 2 } as const;
+export const SpanStatusCode = { UNSET: 0, OK: 1, ERROR: 2 } as const;
+
+export interface SpanOptionsLike {
+  kind?: number;
+  attributes?: SpanAttributes;
+  startTime?: number; // Epoch ms
+}
+
+export interface SpanLike {
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): unknown;
+  end(endTime?: number): unknown;
+}
+
+export interface TracerLike {
+  startSpan(name: string, options?: SpanOptionsLike, context?: unknown): SpanLike;
+}
+
+export interface TracingInstrumentationOptions {
+  /**
+   * Builds the parent context for child spans of a resolution
+   * With OpenTelemetry: `span => trace.setSpan(context.active(), span)`. Defaults to no parent
+   * (spans still carry `smp.resolution_id`), or the span itself for a RecordingTracer.
+   */
+  contextForSpan?: (span: SpanLike) => unknown;
+}
+
+/**
+ * Creates instrumentation hooks that emit one span per resolution, with child spans for
+ * DNS queries, HTTP requests, XML and certificate parsing and business card attempts
+ *
+ * @param tracer - OpenTelemetry Tracer, or a RecordingTracer to inspect spans in-process
+ */
+export function createTracingInstrumentation(
+  tracer: TracerLike,
+  options: TracingInstrumentationOptions = {}
+): ResolverInstrumentation {
+  const contextForSpan =
+    options.contextForSpan ??
+    (tracer instanceof RecordingTracer ? (span: SpanLike) => span : () => undefined);
+  const resolutionSpans = new Map<number, SpanLike>();
+
+  // Child spans are reported once finished, with their actual start time
+  const recordSpan = (
+    name: string,
+    event: InstrumentationEvent & { startTime: number; durationMs: number; error?: unknown },
+    attributes: SpanAttributes,
+    kind: number = SpanKind.INTERNAL
+  ): void => {
+    const parent =
+      event.resolutionId !== undefined ? resolutionSpans.get(event.resolutionId) : undefined;
+    const span = tracer.startSpan(
+      name,
+      {
+        kind,
+        startTime: event.startTime,
+        attributes: { 'smp.resolution_id': event.resolutionId, ...attributes }
+      },
+      parent ? contextForSpan(parent) : undefined
+    );
+    endSpan(span, event.startTime + event.durationMs, event.error);
+  };
+
+  return {
+    onResolutionStart(event) {
+      resolutionSpans.set(
+        event.resolutionId,
+        tracer.startSpan(`smp.${event.operation}`, {
+          kind: SpanKind.INTERNAL,
+          startTime: event.startTime,
+          attributes: {
+            'smp.resolution_id': event.resolutionId,
+            'smp.participant_id': event.participantId
+          }
+        })
+      );
+    },
+
+    onResolutionEnd(event: ResolutionEndEvent) {
+      const span = resolutionSpans.get(event.resolutionId);
+      if (!span) {
+        return;
+      }
+      resolutionSpans.delete(event.resolutionId);
+
+      if (event.registrationStatus) {
+        span.setAttribute('smp.registration_status', event.registrationStatus);
+      }
+      if (event.errorCode) {
+        span.setAttribute('smp.error_code', event.errorCode);
+      }
+      endSpan(span, event.startTime + event.durationMs, event.error);
+    },
+
+    onDNSQueryEnd(event) {
+      const recordType = event.recordType ?? 'NAPTR';
+      recordSpan(
+        `dns.${recordType.toLowerCase()}`,
+        event,
+        {
+          'dns.question.name': event.domain,
+          'dns.question.type': recordType,
+          'dns.record_count': event.recordCount
+        },
+        SpanKind.CLIENT
+      );
+    },
+
+    onHTTPRequest(event) {
+      recordSpan(
+        'GET',
+        event,
+        {
+          'http.request.method': 'GET',
+          'url.full': event.url,
+          'http.request.resend_count': event.attempt > 1 ? event.attempt - 1 : undefined,
+          'http.response.status_code': event.statusCode,
+          'http.response.body.size': event.bytes
+        },
+        SpanKind.CLIENT
+      );
+    },
+
+    onXMLParse(event) {
+      recordSpan('smp.xml.parse', event, {
+        'smp.xml.kind': event.kind,
+        'smp.xml.bytes': event.bytes
+      });
+    },
+
+    onCertificateParse(event) {
+      recordSpan('smp.certificate.parse', event, { 'smp.certificate.cached': event.cached });
+    },
+
+    onBusinessCardAttempt(event) {
+      recordSpan('smp.business_card.attempt', event, {
+        'url.full': event.url,
+        'http.response.status_code': event.statusCode,
+        'smp.business_card.found': event.found
+      });
+    }
+  };
+}
+
+function endSpan(span: SpanLike, endTime: number, error?: unknown): void {
+  if (error !== undefined) {
+    span.recordException(error instanceof Error ? error : String(error));
+    span.setStatus({
+      code: SpanStatusCode.ERROR,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+  span.end(endTime);
+}
+
+/**
+ * Finished span as kept by RecordingTracer
+ */
+export interface RecordedSpan {
+  name: string;
+  spanId: string;
+  parentSpanId?: string;
+  kind: number;
+  startTime: number;
+  endTime: number;
+  durationMs: number;
+  attributes: Record<string, SpanAttributeValue>;
+  status: { code: number; message?: string };
+  exceptions: string[];
+}
+
+class RecordingSpan implements SpanLike {
+  readonly spanId = randomBytes(8).toString('hex');
+  private startTime: number;
+  private attributes: Record<string, SpanAttributeValue> = {};
+  private status: { code: number; message?: string } = { code: SpanStatusCode.UNSET };
+  private exceptions: string[] = [];
+  private ended = false;
+
+  constructor(
+    private name: string,
+    private options: SpanOptionsLike,
+    private parentSpanId: string | undefined,
+    private onEnd: (span: RecordedSpan) => void
+  ) {
+    this.startTime = options.startTime ?? Date.now();
+    for (const [key, value] of Object.entries(options.attributes ?? {})) {
+      if (value !== undefined) {
+        this.attributes[key] = value;
+      }
+    }
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue): this {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  setStatus(status: { code: number; message?: string }): this {
+    this.status = status;
+    return this;
+  }
+
+  recordException(exception: Error | string): void {
+    this.exceptions.push(exception instanceof Error ? exception.message : exception);
+  }
+
+  end(endTime: number = Date.now()): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    this.onEnd({
+      name: this.name,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      kind: this.options.kind ?? SpanKind.INTERNAL,
+      startTime: this.startTime,
+      endTime,
+      durationMs: endTime - this.startTime,
+      attributes: this.attributes,
+      status: this.status,
+      exceptions: this.exceptions
+    });
+  }
+}
+
+/**
+ * In-memory tracer for looking at spans without an OpenTelemetry SDK or collector
+ * (tests, CLI debugging, logging slow resolutions)
+ */
+export class RecordingTracer implements TracerLike {
+  private spans: RecordedSpan[] = [];
+
+  startSpan(name: string, options: SpanOptionsLike = {}, context?: unknown): SpanLike {
+    const parentSpanId = context instanceof RecordingSpan ? context.spanId : undefined;
+    return new RecordingSpan(name, options, parentSpanId, span => this.spans.push(span));
+  }
+
+  /**
+   * Finished spans in the order they ended
+   */
+  getFinishedSpans(): RecordedSpan[] {
+    return [...this.spans];
+  }
+
+  reset(): void {
+    this.spans = [];
+  }
+}
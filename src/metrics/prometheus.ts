@@ -0,0 +1,283 @@
+import type {
+  ResolverInstrumentation,
+  ResolutionEndEvent,
+  DNSQueryEndEvent,
+  HTTPRequestEvent,
+  CertificateParseEvent
+} from '../instrumentation/instrumentation.js';
+import type { SMPResolver } from '../resolver.js';
+
+// Content-Type of the Prometheus text exposition format
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// Seconds; DNS answers are fast or time out (5s per attempt)
+const DEFAULT_DNS_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+// Seconds; business card attempts can keep a resolution busy for tens of seconds
+const DEFAULT_RESOLUTION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+export interface PrometheusMetricsOptions {
+  prefix?: string; // Metric name prefix (default: "smp_resolver_")
+  dnsBuckets?: number[]; // DNS lookup duration histogram buckets in seconds
+  resolutionBuckets?: number[]; // Resolution duration histogram buckets in seconds
+}
+
+type Labels = Record<string, string>;
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Counter with one series per label combination
+ */
+class Counter {
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = formatLabels(labels);
+    const entry = this.series.get(key);
+    if (entry) {
+      entry.value += value;
+    } else {
+      this.series.set(key, { labels, value });
+    }
+  }
+
+  get(labels: Labels = {}): number {
+    return this.series.get(formatLabels(labels))?.value ?? 0;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  render(name: string, help: string): string[] {
+    const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} counter`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(`${name}${formatLabels(labels)} ${value}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Cumulative histogram without labels
+ */
+class Histogram {
+  private counts: number[];
+  private sum = 0;
+  private count = 0;
+
+  constructor(private buckets: number[]) {
+    this.buckets = [...buckets].sort((a, b) => a - b);
+    this.counts = this.buckets.map(() => 0);
+  }
+
+  reset(): void {
+    this.counts.fill(0);
+    this.sum = 0;
+    this.count = 0;
+  }
+
+  observe(value: number): void {
+    this.sum += value;
+    this.count++;
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) {
+        this.counts[i]++;
+      }
+    }
+  }
+
+  render(name: string, help: string): string[] {
+    const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} histogram`];
+    this.buckets.forEach((bucket, i) => {
+      lines.push(`${name}_bucket{le="${bucket}"} ${this.counts[i]}`);
+    });
+    lines.push(`${name}_bucket{le="+Inf"} ${this.count}`);
+    lines.push(`${name}_sum ${this.sum}`);
+    lines.push(`${name}_count ${this.count}`);
+    return lines;
+  }
+}
+
+function renderSamples(
+  name: string,
+  type: 'counter' | 'gauge',
+  help: string,
+  samples: Array<[Labels, number]>
+): string[] {
+  const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+  for (const [labels, value] of samples) {
+    lines.push(`${name}${formatLabels(labels)} ${value}`);
+  }
+  return lines;
+}
+
+/**
+ * Collects resolver activity and renders it in the Prometheus text exposition format
+ *
+ * Pass the instance as `instrumentation` to count resolutions, errors, HTTP responses and
+ * DNS latency, and register the resolver with addResolver() to also export its cache and
+ * circuit breaker state. No Prometheus client library is required.
+ *
+ * @example
+ * const metrics = new PrometheusMetrics();
+ * const resolver = new SMPResolver({ instrumentation: metrics });
+ * metrics.addResolver(resolver);
+ * // GET /metrics
+ * response.setHeader('Content-Type', PROMETHEUS_CONTENT_TYPE).end(metrics.render());
+ */
+export class PrometheusMetrics implements ResolverInstrumentation {
+  private prefix: string;
+  private resolvers: SMPResolver[] = [];
+  private resolutions = new Counter();
+  private errors = new Counter();
+  private httpResponses = new Counter();
+  private certificateParses = new Counter();
+  private dnsDuration: Histogram;
+  private resolutionDuration: Histogram;
+
+  constructor(options: PrometheusMetricsOptions = {}) {
+    this.prefix = options.prefix ?? 'smp_resolver_';
+    this.dnsDuration = new Histogram(options.dnsBuckets ?? DEFAULT_DNS_BUCKETS);
+    this.resolutionDuration = new Histogram(
+      options.resolutionBuckets ?? DEFAULT_RESOLUTION_BUCKETS
+    );
+  }
+
+  /**
+   * Exports the resolution cache, certificate cache and circuit breaker state of a resolver
+   * (sampled on every render(), summed over all registered resolvers)
+   */
+  addResolver(resolver: SMPResolver): void {
+    this.resolvers.push(resolver);
+  }
+
+  onResolutionEnd(event: ResolutionEndEvent): void {
+    this.resolutionDuration.observe(event.durationMs / 1000);
+    if (event.registrationStatus) {
+      this.resolutions.inc({ status: event.registrationStatus });
+    }
+    if (event.errorCode) {
+      this.errors.inc({ operation: event.operation, code: event.errorCode });
+    }
+  }
+
+  onDNSQueryEnd(event: DNSQueryEndEvent): void {
+    this.dnsDuration.observe(event.durationMs / 1000);
+  }
+
+  onHTTPRequest(event: HTTPRequestEvent): void {
+    this.httpResponses.inc({
+      host: new URL(event.url).host,
+      status_code: event.statusCode !== undefined ? String(event.statusCode) : 'error'
+    });
+  }
+
+  onCertificateParse(event: CertificateParseEvent): void {
+    this.certificateParses.inc({ cached: String(event.cached) });
+  }
+
+  /**
+   * Renders all metrics in the Prometheus text exposition format (PROMETHEUS_CONTENT_TYPE)
+   */
+  render(): string {
+    const name = (metric: string) => this.prefix + metric;
+    const lines = [
+      ...this.resolutions.render(
+        name('resolutions_total'),
+        'resolve() calls by registration status'
+      ),
+      ...this.errors.render(name('errors_total'), 'Failed resolutions by operation and error code'),
+      ...this.resolutionDuration.render(
+        name('resolution_duration_seconds'),
+        'Duration of resolutions'
+      ),
+      ...this.dnsDuration.render(name('dns_lookup_duration_seconds'), 'Duration of SML lookups'),
+      ...this.httpResponses.render(
+        name('http_responses_total'),
+        'HTTP requests by SMP host and status code ("error" when no response was received)'
+      ),
+      ...this.certificateParses.render(
+        name('certificate_parses_total'),
+        'Certificate parses, cached="true" when served from the fingerprint cache'
+      )
+    ];
+
+    if (this.resolvers.length > 0) {
+      lines.push(...this.renderResolverState(name));
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Clears all counters and histograms (registered resolvers are kept)
+   */
+  reset(): void {
+    this.resolutions.reset();
+    this.errors.reset();
+    this.httpResponses.reset();
+    this.certificateParses.reset();
+    this.dnsDuration.reset();
+    this.resolutionDuration.reset();
+  }
+
+  private renderResolverState(name: (metric: string) => string): string[] {
+    let hits = 0;
+    let misses = 0;
+    let certificates = 0;
+    const circuits: Record<string, number> = { open: 0, 'half-open': 0 };
+
+    for (const resolver of this.resolvers) {
+      const cacheStats = resolver.getCacheStats();
+      hits += cacheStats.hits;
+      misses += cacheStats.misses;
+      certificates += resolver.getCertificateCacheStats().size;
+      for (const stats of Object.values(resolver.getCircuitBreakerStats())) {
+        if (stats.state in circuits) {
+          circuits[stats.state]++;
+        }
+      }
+    }
+
+    const certificateHits = this.certificateParses.get({ cached: 'true' });
+    const certificateLookups = certificateHits + this.certificateParses.get({ cached: 'false' });
+
+    return [
+      ...renderSamples(name('cache_hits_total'), 'counter', 'Resolution cache hits', [[{}, hits]]),
+      ...renderSamples(name('cache_misses_total'), 'counter', 'Resolution cache misses', [
+        [{}, misses]
+      ]),
+      ...renderSamples(name('cache_hit_ratio'), 'gauge', 'Resolution cache hits / lookups', [
+        [{}, hits + misses > 0 ? hits / (hits + misses) : 0]
+      ]),
+      ...renderSamples(
+        name('certificate_cache_size'),
+        'gauge',
+        'Parsed certificates held in the cache',
+        [[{}, certificates]]
+      ),
+      ...renderSamples(
+        name('certificate_cache_hit_ratio'),
+        'gauge',
+        'Certificate cache hits / parses',
+        [[{}, certificateLookups > 0 ? certificateHits / certificateLookups : 0]]
+      ),
+      ...renderSamples(
+        name('circuit_breakers'),
+        'gauge',
+        'SMP origins whose circuit is not closed',
+        Object.entries(circuits).map(([state, count]) => [{ state }, count])
+      )
+    ];
+  }
+}
@@ -0,0 +1,116 @@
+import { SMPResolverError } from '../errors/index.js';
+import {
+  PEPPOL_DOCUMENT_TYPE_CODE_LIST,
+  type DocumentTypeCodeList
+} from '../data/document-types.js';
+import {
+  PEPPOL_PARTICIPANT_IDENTIFIER_SCHEME_CODE_LIST,
+  type ParticipantIdentifierSchemeCodeList
+} from '../data/participant-identifier-schemes.js';
+
+/**
+ * Peppol network the resolver works against
+ * `custom` is for private networks and local SMLs; its settings must be given explicitly.
+ */
+export type NetworkName = 'peppol-prod' | 'peppol-test' | 'custom';
+
+/**
+ * Code lists a network uses for document type names, code list warnings and scheme info
+ */
+export interface NetworkCodeLists {
+  documentTypes: DocumentTypeCodeList;
+  participantIdentifierSchemes: ParticipantIdentifierSchemeCodeList;
+}
+
+/**
+ * Settings that belong to one network and must not be mixed with another network's
+ */
+export interface NetworkProfile {
+  name: NetworkName;
+  smlDomain: string; // DNS zone of the SML (NAPTR lookups)
+  apCAs: string[]; // Issuer CNs of Access Point certificates (empty: not checked)
+  smpCAs: string[]; // Issuer CNs of SMP signing certificates (empty: not checked)
+  transportProfiles: string[]; // Endpoint transport profiles in use (empty: any)
+  codeLists: NetworkCodeLists; // Code lists in force on the network
+}
+
+const PEPPOL_TRANSPORT_PROFILES = ['peppol-transport-as4-v2_0'];
+
+const PEPPOL_CODE_LISTS: NetworkCodeLists = {
+  documentTypes: PEPPOL_DOCUMENT_TYPE_CODE_LIST,
+  participantIdentifierSchemes: PEPPOL_PARTICIPANT_IDENTIFIER_SCHEME_CODE_LIST
+};
+
+/**
+ * Built-in Peppol networks
+ */
+export const NETWORK_PROFILES: Readonly<Record<'peppol-prod' | 'peppol-test', NetworkProfile>> = {
+  'peppol-prod': {
+    name: 'peppol-prod',
+    smlDomain: 'participant.sml.prod.tech.peppol.org',
+    apCAs: ['PEPPOL ACCESS POINT CA - G2'],
+    smpCAs: ['PEPPOL SERVICE METADATA PUBLISHER CA - G2'],
+    transportProfiles: PEPPOL_TRANSPORT_PROFILES,
+    codeLists: PEPPOL_CODE_LISTS
+  },
+  'peppol-test': {
+    name: 'peppol-test',
+    smlDomain: 'participant.sml.test.tech.peppol.org',
+    apCAs: ['PEPPOL ACCESS POINT TEST CA - G2'],
+    smpCAs: ['PEPPOL SERVICE METADATA PUBLISHER TEST CA - G2'],
+    transportProfiles: PEPPOL_TRANSPORT_PROFILES,
+    codeLists: PEPPOL_CODE_LISTS
+  }
+};
+
+export const DEFAULT_NETWORK = 'peppol-prod';
+
+/**
+ * Builds the profile for a network name or custom settings
+ *
+ * @param network - Preset name, or settings for a custom network (name defaults to "custom")
+ * @param smlDomain - Overrides the SML domain of the profile; required for "custom"
+ */
+export function resolveNetworkProfile(
+  network: NetworkName | Partial<NetworkProfile> = DEFAULT_NETWORK,
+  smlDomain?: string
+): NetworkProfile {
+  const settings = typeof network === 'string' ? { name: network } : network;
+  const name = settings.name ?? 'custom';
+
+  let base: NetworkProfile;
+  if (name === 'custom') {
+    base = {
+      name,
+      smlDomain: '',
+      apCAs: [],
+      smpCAs: [],
+      transportProfiles: [],
+      codeLists: PEPPOL_CODE_LISTS
+    };
+  } else if (name in NETWORK_PROFILES) {
+    base = NETWORK_PROFILES[name];
+  } else {
+    throw new SMPResolverError(
+      'INVALID_OPTIONS',
+      `Unknown network "${name}". Expected: peppol-prod, peppol-test or custom`
+    );
+  }
+
+  const profile: NetworkProfile = { ...base, ...settings, name };
+  if (smlDomain) {
+    profile.smlDomain = smlDomain;
+  }
+  if (!profile.smlDomain) {
+    throw new SMPResolverError('INVALID_OPTIONS', 'A custom network requires an SML domain');
+  }
+  return profile;
+}
+
+/**
+ * Checks whether a certificate issuer DN names one of the given CAs (by CN)
+ */
+export function isIssuedBy(issuerDN: string, cas: string[]): boolean {
+  const commonName = issuerDN.match(/(?:^|,)\s*CN=([^,]+)/i)?.[1].trim();
+  return commonName !== undefined && cas.includes(commonName);
+}
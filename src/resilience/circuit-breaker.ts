@@ -0,0 +1,131 @@
+import { SMPResolverError } from '../errors/index.js';
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number; // Consecutive failures before the circuit opens (default: 5)
+  resetTimeoutMs?: number; // Time the circuit stays open before a trial request (default: 30000)
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerStats {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: Date;
+}
+
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  trialInFlight: boolean;
+}
+
+/**
+ * Thrown instead of contacting an SMP whose circuit is open
+ */
+export class CircuitOpenError extends SMPResolverError {
+  constructor(
+    readonly key: string,
+    readonly retryAt: Date
+  ) {
+    super('SMP_CIRCUIT_OPEN', `Circuit breaker open for ${key} until ${retryAt.toISOString()}`, {
+      url: key
+    });
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Per-key circuit breaker (keyed by SMP origin)
+ *
+ * closed: requests pass, consecutive failures are counted
+ * open: requests fail fast with CircuitOpenError until resetTimeoutMs has elapsed
+ * half-open: a single trial request passes; success closes the circuit, failure re-opens it
+ */
+export class CircuitBreaker {
+  private circuits: Map<string, Circuit> = new Map();
+  private failureThreshold: number;
+  private resetTimeoutMs: number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+  }
+
+  /**
+   * Throws CircuitOpenError when requests to the key must not be attempted
+   */
+  assertCanRequest(key: string): void {
+    const circuit = this.circuits.get(key);
+    if (!circuit || circuit.state === 'closed') {
+      return;
+    }
+
+    const retryAt = (circuit.openedAt ?? 0) + this.resetTimeoutMs;
+    if (circuit.state === 'open' && Date.now() >= retryAt) {
+      circuit.state = 'half-open';
+    }
+
+    // Only one trial request at a time while half-open
+    if (circuit.state === 'half-open' && !circuit.trialInFlight) {
+      circuit.trialInFlight = true;
+      return;
+    }
+
+    throw new CircuitOpenError(key, new Date(retryAt));
+  }
+
+  recordSuccess(key: string): void {
+    this.circuits.delete(key);
+  }
+
+  recordFailure(key: string): void {
+    const circuit = this.circuits.get(key) ?? {
+      state: 'closed',
+      consecutiveFailures: 0,
+      trialInFlight: false
+    };
+    circuit.consecutiveFailures++;
+    circuit.trialInFlight = false;
+
+    if (circuit.state === 'half-open' || circuit.consecutiveFailures >= this.failureThreshold) {
+      circuit.state = 'open';
+      circuit.openedAt = Date.now();
+    }
+    this.circuits.set(key, circuit);
+  }
+
+  /**
+   * Releases a half-open trial that ended without telling anything about the SMP
+   * (e.g. cancelled by the caller), so that the next request can be the trial
+   */
+  recordCancellation(key: string): void {
+    const circuit = this.circuits.get(key);
+    if (circuit) {
+      circuit.trialInFlight = false;
+    }
+  }
+
+  /**
+   * Circuits with recent failures, keyed like getStats() of HTTPClient (healthy keys are omitted)
+   */
+  getStats(): Record<string, CircuitBreakerStats> {
+    const stats: Record<string, CircuitBreakerStats> = {};
+    for (const [key, circuit] of this.circuits) {
+      const retryAt = (circuit.openedAt ?? 0) + this.resetTimeoutMs;
+      stats[key] = {
+        state: circuit.state === 'open' && Date.now() >= retryAt ? 'half-open' : circuit.state,
+        consecutiveFailures: circuit.consecutiveFailures,
+        ...(circuit.openedAt !== undefined && { openedAt: new Date(circuit.openedAt) })
+      };
+    }
+    return stats;
+  }
+
+  /**
+   * Closes all circuits
+   */
+  reset(): void {
+    this.circuits.clear();
+  }
+}
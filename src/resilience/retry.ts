@@ -0,0 +1,121 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+
+/**
+ * Retry policy for DNS lookups and SMP requests
+ */
+export interface RetryPolicy {
+  maxAttempts?: number; // Total attempts including the first one (default: 3, 1 disables retries)
+  baseDelayMs?: number; // Delay before the first retry, doubled on every retry (default: 200)
+  maxDelayMs?: number; // Upper bound for a single delay (default: 2000)
+  jitter?: boolean; // Randomize delays ("full jitter") to avoid retry storms (default: true)
+  retryableStatusCodes?: number[]; // HTTP statuses worth retrying (default: 429, 502, 503, 504)
+  retryTimeouts?: boolean; // Retry requests that timed out (default: false, a dead server fails fast)
+}
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelayMs: 200,
+  maxDelayMs: 2000,
+  jitter: true,
+  retryableStatusCodes: [429, 502, 503, 504],
+  retryTimeouts: false
+};
+
+// Error codes of DNS (c-ares, DNSError) and HTTP (undici) timeouts
+const TIMEOUT_ERROR_CODES = [
+  'ETIMEOUT',
+  'DNS_TIMEOUT',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT'
+];
+
+/**
+ * Whether an error is a timeout or an abort, which retrying would only prolong
+ */
+export function isTimeoutError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+  const { code, name } = error as { code?: unknown; name?: unknown };
+  return (
+    (typeof code === 'string' && TIMEOUT_ERROR_CODES.includes(code)) ||
+    name === 'TimeoutError' ||
+    name === 'AbortError'
+  );
+}
+
+// Deadlines of the signals created by createDeadlineSignal()
+const signalDeadlines = new WeakMap<AbortSignal, number>();
+
+/**
+ * Signal aborting after timeoutMs (or when the given signal aborts)
+ * retry() gives up before backoff delays that would end past this deadline.
+ */
+export function createDeadlineSignal(timeoutMs: number, signal?: AbortSignal): AbortSignal {
+  const timeoutSignal = AbortSignal.timeout(timeoutMs);
+  const deadlineSignal = signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal;
+  signalDeadlines.set(deadlineSignal, Date.now() + timeoutMs);
+  return deadlineSignal;
+}
+
+/**
+ * Fills in defaults; `false` yields a policy that never retries
+ */
+export function resolveRetryPolicy(policy?: RetryPolicy | false): Required<RetryPolicy> {
+  if (policy === false) {
+    return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  }
+  return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+/**
+ * Delay before the given retry (1 = first retry): exponential backoff, optionally jittered
+ */
+export function getRetryDelay(retry: number, policy: Required<RetryPolicy>): number {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  return policy.jitter ? Math.random() * delay : delay;
+}
+
+export interface RetryOptions<T> {
+  isRetryableError: (error: unknown) => boolean;
+  isRetryableResult?: (result: T) => boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs an operation until it succeeds, fails with a non-retryable error or runs out of attempts
+ * The last result is returned even when retryable (e.g. a final 503), the last error is thrown.
+ * Aborting the signal stops waiting immediately and rejects with the signal's reason; with a
+ * signal from createDeadlineSignal(), no retry is started that could not finish before the deadline.
+ */
+export async function retry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: Required<RetryPolicy>,
+  options: RetryOptions<T>
+): Promise<T> {
+  const deadline = options.signal && signalDeadlines.get(options.signal);
+
+  for (let attempt = 1; ; attempt++) {
+    const delay = getRetryDelay(attempt, policy);
+    const isLastAttempt =
+      attempt >= policy.maxAttempts || (deadline !== undefined && Date.now() + delay >= deadline);
+
+    try {
+      const result = await operation(attempt);
+      if (isLastAttempt || !options.isRetryableResult?.(result)) {
+        return result;
+      }
+    } catch (error) {
+      if (isLastAttempt || options.signal?.aborted || !options.isRetryableError(error)) {
+        throw error;
+      }
+    }
+
+    try {
+      await sleep(delay, undefined, { signal: options.signal });
+    } catch {
+      throw options.signal?.reason;
+    }
+  }
+}
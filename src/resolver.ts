@@ -1,54 +1,333 @@
-import { NAPTRResolver } from './dns/naptr-resolver.js';
+import { NAPTRResolver, type SMPLocation, type SMLLookupMechanism } from './dns/naptr-resolver.js';
 import { HTTPClient } from './http/http-client.js';
 import { RedirectHandler } from './http/redirect-handler.js';
 import { XMLParser } from './xml/parser.js';
-import { hashParticipantId } from './sml/participant-hash.js';
+import { hashParticipantId, hashParticipantIdMD5 } from './sml/participant-hash.js';
+import { ParticipantIdentifierSchemeLookup } from './data/participant-identifier-schemes.js';
 import { DocumentTypeLookup } from './data/document-types.js';
 import { CertificateParser } from './certificate/parser.js';
+import { SignatureVerifier } from './xml/signature-verifier.js';
+import { MemoryCacheStore } from './cache/memory-cache-store.js';
+import {
+  ResolutionCache,
+  type CachedResourceKind,
+  type CachedResponse
+} from './cache/resolution-cache.js';
+import type { CircuitBreakerStats } from './resilience/circuit-breaker.js';
+import { createDeadlineSignal } from './resilience/retry.js';
+import { InstrumentationDispatcher, measure } from './instrumentation/instrumentation.js';
+import { resolveNetworkProfile, isIssuedBy, type NetworkProfile } from './network/profiles.js';
+import {
+  normalizeParticipantId,
+  PARTICIPANT_IDENTIFIER_SCHEME
+} from './identifiers/normalization.js';
+import { ParticipantId } from './identifiers/participant-identifier.js';
+import {
+  DocumentTypeIdentifier,
+  DOCUMENT_TYPE_IDENTIFIER_SCHEME,
+  describeDocumentType,
+  checkDocumentTypes
+} from './identifiers/document-type-identifier.js';
+import { IdentifierValidatorRegistry } from './identifiers/validators.js';
+import {
+  SMPResolverError,
+  InvalidParticipantIdError,
+  DNSError,
+  SMPHTTPError,
+  RedirectError,
+  RedirectCertificateError,
+  toSMPResolverError
+} from './errors/index.js';
 import { VERSION } from './index.js';
 import type {
   SMPResolverConfig,
   ParticipantInfo,
+  ParticipantIdentifier,
   RegistrationStatus,
   BusinessCard,
   BusinessEntity,
   EndpointInfo,
   ResolveOptions,
+  ResolveManyOptions,
+  ResolveStreamOptions,
+  BatchResolutionResult,
+  ResolutionTimings,
   ServiceMetadata,
   DocumentType,
-  CertificateInfo
+  CertificateInfo,
+  ParticipantCapabilities,
+  ResolutionDiagnostics,
+  CapabilityCheckResult,
+  ServiceEndpoint,
+  SMPRedirect,
+  SignatureVerificationResult,
+  RedirectCertificateCheck
 } from './types/index.js';
 
+// SMP spec section 2.2: a client follows at most one SMP-level redirect
+const MAX_SMP_REDIRECTS = 1;
+
+/**
+ * Compares a redirect's CertificateUID with the signer of the destination SMP resource
+ * Uses the subject UID attribute of the signing certificate, falling back to its subject DN
+ */
+function checkRedirectCertificate(
+  expectedUID: string,
+  signature: SignatureVerificationResult
+): RedirectCertificateCheck {
+  const signer = signature.signerCertificate;
+  if (signature.status !== 'valid' || !signer) {
+    return {
+      status: 'unverifiable',
+      expectedUID,
+      actualSubjectDN: signer?.subjectDN,
+      signatureStatus: signature.status
+    };
+  }
+
+  const actualUID = signer.subjectUID ?? signer.subjectDN;
+  const normalize = (uid: string) => uid.replace(/\s*,\s*/g, ',').toLowerCase();
+
+  return {
+    status: normalize(actualUID) === normalize(expectedUID) ? 'match' : 'mismatch',
+    expectedUID,
+    actualUID,
+    actualSubjectDN: signer.subjectDN,
+    signatureStatus: signature.status
+  };
+}
+
+/**
+ * Splits an optional "{scheme}::" prefix off a document type or process identifier
+ */
+function splitIdentifierScheme(
+  identifier: string,
+  defaultScheme: string
+): { scheme: string; value: string } {
+  // Schemes never contain a single colon, identifier values usually do (urn:...)
+  const match = identifier.match(/^([^:]+)::(.+)$/);
+  if (match) {
+    return { scheme: match[1], value: match[2] };
+  }
+  return { scheme: defaultScheme, value: identifier };
+}
+
+/**
+ * Determines whether an endpoint is valid at the given moment
+ * A missing activation/expiration date means "valid since forever"/"valid until eternity"
+ */
+function getEndpointValidity(
+  endpoint: ServiceEndpoint,
+  now: Date
+): 'active' | 'not-yet-active' | 'expired' {
+  if (endpoint.serviceActivationDate && endpoint.serviceActivationDate > now) {
+    return 'not-yet-active';
+  }
+  if (endpoint.serviceExpirationDate && endpoint.serviceExpirationDate < now) {
+    return 'expired';
+  }
+  return 'active';
+}
+
+/**
+ * Turns ResolveOptions.timeout into a deadline combined with ResolveOptions.signal
+ * The returned options carry no timeout, so nested calls cannot extend the deadline.
+ */
+function withDeadline(options: ResolveOptions = {}): ResolveOptions {
+  if (!options.timeout) {
+    return options;
+  }
+
+  return {
+    ...options,
+    timeout: undefined,
+    signal: createDeadlineSignal(options.timeout, options.signal)
+  };
+}
+
+/**
+ * Fingerprint of the resolve() options that change the shape of the result
+ */
+function getResultCacheKey(options?: ResolveOptions): string {
+  return [
+    options?.fetchDocumentTypes,
+    options?.includeBusinessCard,
+    options?.parseCertificate,
+    options?.verifySignature,
+    options?.strictRedirectVerification
+  ]
+    .map(flag => (flag ? '1' : '0'))
+    .join('');
+}
+
+type TimedPhase = Exclude<keyof ResolutionTimings, 'total' | 'httpCalls'>;
+
+/**
+ * Runs a resolution phase, adding its duration to the timings when they were requested
+ */
+async function timePhase<T>(
+  timings: ResolutionTimings | undefined,
+  phase: TimedPhase,
+  step: () => Promise<T>
+): Promise<T> {
+  if (!timings) {
+    return step();
+  }
+
+  const startedAt = performance.now();
+  try {
+    return await step();
+  } finally {
+    timings[phase] += performance.now() - startedAt;
+  }
+}
+
+/**
+ * Parsed SignedServiceMetadata resource plus the SMP-level redirects followed to reach it
+ */
+interface FetchedServiceMetadata {
+  documentTypes: DocumentType[];
+  redirects: SMPRedirect[];
+  signature?: SignatureVerificationResult;
+}
+
+/**
+ * Builds the diagnostics block, omitting it entirely when there is nothing to report
+ */
+function buildDiagnostics(
+  smpErrors: NonNullable<ResolutionDiagnostics['smpErrors']>,
+  redirects: SMPRedirect[],
+  warnings: string[] = []
+): ResolutionDiagnostics | undefined {
+  const diagnostics: ResolutionDiagnostics = {};
+  if (smpErrors.length > 0) {
+    diagnostics.smpErrors = smpErrors;
+  }
+  if (warnings.length > 0) {
+    diagnostics.warnings = warnings;
+  }
+  if (redirects.length > 0) {
+    diagnostics.redirects = redirects;
+  }
+  return Object.keys(diagnostics).length > 0 ? diagnostics : undefined;
+}
+
+/**
+ * Picks the first endpoint of a document type that uses one of the network's transport
+ * profiles, falling back to the first endpoint of its first process
+ */
+function selectEndpoint(
+  documentType: DocumentType | undefined,
+  transportProfiles: string[]
+): ServiceEndpoint | undefined {
+  const endpoints = documentType?.processes.flatMap(process => process.endpoints) ?? [];
+  return (
+    endpoints.find(
+      endpoint =>
+        transportProfiles.length === 0 || transportProfiles.includes(endpoint.transportProfile)
+    ) ?? documentType?.processes[0]?.endpoints[0]
+  );
+}
+
+/**
+ * Participant ID as given by the caller, identifier objects in their URI form
+ */
+function formatParticipantInput(input: string | ParticipantIdentifier): string {
+  return typeof input === 'string' ? input : `${input.scheme}::${input.value}`;
+}
+
+/**
+ * Reports the participant ID as given when normalization changed it
+ * Added outside cached results, which are shared by all spellings of an ID.
+ */
+function withNormalizedFrom<T extends object>(
+  result: T,
+  input: string | ParticipantIdentifier,
+  participantId: string
+): T & { normalizedFrom?: string } {
+  const given = typeof input === 'string' ? input : input.value;
+  return given === participantId ? result : { ...result, normalizedFrom: given };
+}
+
 export class SMPResolver {
   private config: Required<SMPResolverConfig>;
+  private network: NetworkProfile;
   private naptrResolver: NAPTRResolver;
   private httpClient: HTTPClient;
   private redirectHandler: RedirectHandler;
   private xmlParser: XMLParser;
+  private documentTypes: DocumentTypeLookup;
+  private participantIdentifierSchemes: ParticipantIdentifierSchemeLookup;
   private certificateParser: CertificateParser;
+  private signatureVerifier: SignatureVerifier;
+  private cache: ResolutionCache | null;
+  private instrumentation: InstrumentationDispatcher;
+  private validators: IdentifierValidatorRegistry | null;
 
   constructor(config: SMPResolverConfig = {}) {
+    this.network = resolveNetworkProfile(config.network, config.smlDomain);
     this.config = {
-      smlDomain: config.smlDomain ?? 'participant.sml.prod.tech.peppol.org',
+      network: this.network,
+      smlDomain: this.network.smlDomain,
+      lookupStrategy: config.lookupStrategy ?? 'naptr',
+      normalizeIdentifiers: config.normalizeIdentifiers ?? true,
+      validateIdentifiers: config.validateIdentifiers ?? false,
       dnsServers: config.dnsServers ?? [],
       httpTimeout: config.httpTimeout ?? 30000,
       cacheTTL: config.cacheTTL ?? 3600,
-      userAgent: config.userAgent ?? `smp-resolver-ng/${VERSION}`
+      negativeCacheTTL: config.negativeCacheTTL ?? 300,
+      cache: config.cache ?? new MemoryCacheStore(),
+      userAgent: config.userAgent ?? `smp-resolver-ng/${VERSION}`,
+      retry: config.retry ?? {},
+      circuitBreaker: config.circuitBreaker ?? {},
+      instrumentation: config.instrumentation ?? []
     };
 
+    this.instrumentation = new InstrumentationDispatcher(this.config.instrumentation);
+
+    // true: built-in scheme validators; a registry: custom validators
+    const { validateIdentifiers } = this.config;
+    this.validators =
+      validateIdentifiers === true
+        ? new IdentifierValidatorRegistry()
+        : validateIdentifiers || null;
+
     this.naptrResolver = new NAPTRResolver({
       dnsServers: this.config.dnsServers,
-      timeout: 5000
+      smlDomain: this.config.smlDomain,
+      lookupStrategy: this.config.lookupStrategy,
+      timeout: 5000,
+      retry: this.config.retry,
+      instrumentation: this.instrumentation
     });
 
     this.httpClient = new HTTPClient({
       timeout: this.config.httpTimeout,
-      userAgent: this.config.userAgent
+      userAgent: this.config.userAgent,
+      retry: this.config.retry,
+      circuitBreaker: this.config.circuitBreaker,
+      instrumentation: this.instrumentation
     });
 
+    // Document type names, code list warnings and scheme info come from the network's code lists
+    this.documentTypes = DocumentTypeLookup.getInstance(this.network.codeLists.documentTypes);
+    this.participantIdentifierSchemes = ParticipantIdentifierSchemeLookup.getInstance(
+      this.network.codeLists.participantIdentifierSchemes
+    );
+
     this.redirectHandler = new RedirectHandler(this.httpClient);
-    this.xmlParser = new XMLParser();
-    this.certificateParser = new CertificateParser();
+    this.xmlParser = new XMLParser(this.documentTypes);
+    this.certificateParser = new CertificateParser({ instrumentation: this.instrumentation });
+    this.signatureVerifier = new SignatureVerifier(this.certificateParser);
+
+    // cacheTTL: 0 or cache: false disables caching entirely
+    this.cache =
+      this.config.cache && this.config.cacheTTL > 0
+        ? new ResolutionCache(this.config.cache, {
+            ttl: this.config.cacheTTL,
+            negativeTtl: this.config.negativeCacheTTL
+          })
+        : null;
   }
 
   /**
@@ -56,72 +335,163 @@ export class SMPResolver {
    * This is a lightweight operation that doesn't make any HTTP calls
    *
    * @param participantId - Full participant ID (e.g., "0208:0837977428")
-   * @returns SMP URL and hostname, or null if not registered
+   * @param options - Set timeout or signal to bound the DNS lookup
+   * @returns SMP URL and hostname, or null if not registered, and the participant's DNS label
+   * (`hash`) for the mechanism used: Base32 SHA-256 for NAPTR, `B-{md5}` for CNAME lookups
    */
-  async lookupSMP(participantId: string): Promise<{
+  async lookupSMP(
+    participantId: string | ParticipantIdentifier,
+    options?: ResolveOptions
+  ): Promise<{
     participantId: string;
     hash: string;
     smpUrl: string | null;
     smpHostname: string | null;
+    mechanism: SMLLookupMechanism | null;
+    normalizedFrom?: string;
   }> {
-    // Parse participant ID
-    const [scheme, value] = participantId.split(':');
-    if (!scheme || !value) {
-      throw new Error('Invalid participant ID format. Expected: scheme:value');
-    }
+    const normalizedId = this.normalizeParticipantId(participantId);
 
-    // Hash participant ID with scheme for canonical form
-    const hash = hashParticipantId(value, scheme);
+    // Parse participant ID
+    const [scheme, value] = this.parseParticipantId(normalizedId);
 
     // DNS lookup only - no HTTP calls
-    const smpUrl = await this.naptrResolver.lookupSMP(hash, scheme, this.config.smlDomain);
-
-    return {
-      participantId,
+    const { signal } = withDeadline(options);
+    const location = await this.locateSMP(normalizedId, signal);
+
+    // Report the name that was looked up (CNAME-only lookups never try the NAPTR name)
+    const mechanism =
+      location?.mechanism ?? (this.config.lookupStrategy === 'cname' ? 'cname' : 'naptr');
+    const hash =
+      mechanism === 'cname'
+        ? hashParticipantIdMD5(value, scheme)
+        : hashParticipantId(value, scheme);
+
+    const lookup = {
+      participantId: normalizedId,
       hash,
-      smpUrl,
-      smpHostname: smpUrl ? new URL(smpUrl).hostname : null
+      smpUrl: location?.smpUrl ?? null,
+      smpHostname: location ? new URL(location.smpUrl).hostname : null,
+      mechanism: location?.mechanism ?? null
     };
+    return withNormalizedFrom(lookup, participantId, normalizedId);
   }
 
   /**
    * Core resolution method
+   * `options.timeout` bounds the whole call (DNS, SMP and business card requests), and
+   * `options.signal` cancels it; either way the result reports the abort reason as error.
    */
-  async resolve(participantId: string, options?: ResolveOptions): Promise<ParticipantInfo> {
+  async resolve(
+    participantId: string | ParticipantIdentifier,
+    options?: ResolveOptions
+  ): Promise<ParticipantInfo> {
+    const normalizedId = this.normalizeParticipantId(participantId);
+    return this.instrumentation.run(
+      'resolve',
+      normalizedId,
+      async () => {
+        if (!options?.includeTimings) {
+          const result = await this.resolveParticipant(normalizedId, options);
+          return withNormalizedFrom(result, participantId, normalizedId);
+        }
+
+        const startedAt = performance.now();
+        const timings: ResolutionTimings = {
+          dns: 0,
+          serviceGroup: 0,
+          serviceMetadata: 0,
+          businessCard: 0,
+          certificate: 0,
+          total: 0,
+          httpCalls: 0
+        };
+        const result = await this.resolveParticipant(normalizedId, options, timings);
+        timings.total = performance.now() - startedAt;
+        timings.httpCalls = this.instrumentation.getHTTPCallCount();
+
+        for (const phase of Object.keys(timings) as Array<keyof ResolutionTimings>) {
+          timings[phase] = Math.round(timings[phase]);
+        }
+
+        // Timings describe this call, the cached result it may have been served from stays as is
+        return withNormalizedFrom({ ...result, timings }, participantId, normalizedId);
+      },
+      result => ({ registrationStatus: result.registrationStatus, errorCode: result.errorCode })
+    );
+  }
+
+  private async resolveParticipant(
+    participantId: string,
+    options?: ResolveOptions,
+    timings?: ResolutionTimings
+  ): Promise<ParticipantInfo> {
+    options = withDeadline(options);
+
     try {
-      // Parse participant ID
-      const [scheme, value] = participantId.split(':');
-      if (!scheme || !value) {
-        throw new Error('Invalid participant ID format. Expected: scheme:value');
+      // Parse participant ID, before the cache lookup: a shared store may hold results of
+      // resolvers that do not validate identifiers
+      const [scheme] = this.parseParticipantId(participantId);
+
+      // Complete results are cached per combination of output-affecting options
+      const optionsKey = getResultCacheKey(options);
+      const cached = await this.cache?.getParticipantInfo(
+        this.config.smlDomain,
+        this.config.lookupStrategy,
+        participantId,
+        optionsKey
+      );
+      if (cached) {
+        return cached;
       }
 
-      // Hash participant ID with scheme for canonical form
-      const hash = hashParticipantId(value, scheme);
+      const schemeInfo = this.participantIdentifierSchemes.getScheme(scheme);
+      const schemeWarnings =
+        schemeInfo?.state === 'deprecated'
+          ? [`Participant identifier scheme ${scheme} (${schemeInfo.schemeId}) is deprecated`]
+          : [];
 
       // DNS lookup
-      const smpUrl = await this.naptrResolver.lookupSMP(hash, scheme, this.config.smlDomain);
-      if (!smpUrl) {
-        return {
+      const location = await timePhase(timings, 'dns', () =>
+        this.locateSMP(participantId, options.signal)
+      );
+      if (!location) {
+        const unregistered: ParticipantInfo = {
           participantId,
+          ...(schemeInfo && { schemeInfo }),
           isRegistered: false,
           registrationStatus: 'unregistered',
           hasActiveEndpoints: false,
-          error: 'No SMP found via DNS lookup'
+          error: 'No SMP found via DNS lookup',
+          errorCode: 'DNS_NXDOMAIN',
+          ...(schemeWarnings.length > 0 && { diagnostics: { warnings: schemeWarnings } })
         };
+        await this.cache?.setParticipantInfo(
+          this.config.smlDomain,
+          this.config.lookupStrategy,
+          participantId,
+          optionsKey,
+          unregistered
+        );
+        return unregistered;
       }
 
+      const { smpUrl } = location;
+
       // Fetch service metadata
       let serviceMetadata: ServiceMetadata;
       let isParkedDueToNoServiceGroup = false;
       
       try {
-        serviceMetadata = await this.fetchServiceMetadata(smpUrl, participantId);
+        serviceMetadata = await timePhase(timings, 'serviceGroup', () =>
+          this.fetchServiceMetadata(smpUrl, participantId, options.signal)
+        );
       } catch (error) {
         // If service group returns 404, the participant is registered but has no service metadata (parked)
-        if (error instanceof Error && error.message.includes('SMP returned status 404')) {
+        if (error instanceof SMPHTTPError && error.statusCode === 404) {
           isParkedDueToNoServiceGroup = true;
           serviceMetadata = { 
-            participantIdentifier: { scheme: scheme, value: value },
+            participantIdentifier: { scheme: PARTICIPANT_IDENTIFIER_SCHEME, value: participantId },
             documentTypes: [],
             smpUrl: smpUrl
           };
@@ -133,7 +503,9 @@ export class SMPResolver {
       // Extract endpoint info first
       const endpointInfo = isParkedDueToNoServiceGroup
         ? { smpHostname: new URL(smpUrl).hostname, endpoint: undefined }
-        : await this.extractEndpointInfo(serviceMetadata, smpUrl, participantId);
+        : await timePhase(timings, 'serviceMetadata', () =>
+            this.extractEndpointInfo(serviceMetadata, smpUrl, participantId, options)
+          );
 
       // Determine registration status based on endpoints and document types
       const hasEndpoints = !!endpointInfo.endpoint;
@@ -144,9 +516,11 @@ export class SMPResolver {
       // Build response based on options
       const result: ParticipantInfo = {
         participantId,
+        ...(schemeInfo && { schemeInfo }),
         isRegistered: true,
         registrationStatus,
-        hasActiveEndpoints
+        hasActiveEndpoints,
+        lookupMechanism: location.mechanism
       };
 
       // Include SMP hostname if verbose mode
@@ -166,75 +540,255 @@ export class SMPResolver {
         result.endpoint = endpointInfo.endpoint;
       }
 
+      // Include SMP signature verification result if requested
+      if (options?.verifySignature && endpointInfo.signature) {
+        result.signature = endpointInfo.signature;
+      }
+
+      // Set when an optional part was requested but could not be fetched or parsed
+      let incomplete = false;
+
       // Parse certificate if requested and available
       if (options?.parseCertificate && endpointInfo.endpoint?.certificate) {
         try {
-          result.certificateInfo = this.certificateParser.parse(endpointInfo.endpoint.certificate);
+          const certificate = endpointInfo.endpoint.certificate;
+          result.certificateInfo = await timePhase(timings, 'certificate', async () =>
+            this.certificateParser.parse(certificate)
+          );
         } catch {
           // Certificate parsing failed, continue without it
+          incomplete = true;
         }
       }
 
       // Include business entity if requested
       if (options?.includeBusinessCard) {
         try {
-          const businessCard = await this.getBusinessCard(participantId, options);
+          const businessCard = await timePhase(timings, 'businessCard', () =>
+            this.getBusinessCard(participantId, options)
+          );
           result.businessEntity = businessCard.entity;
         } catch {
-          // Business card is optional, continue without it
+          // Business card is optional, continue without it unless the caller gave up
+          incomplete = true;
+          if (options.signal?.aborted) {
+            const abortError = toSMPResolverError(options.signal.reason, options.signal);
+            result.error = abortError.message;
+            result.errorCode = abortError.code;
+          }
         }
       }
 
       // Include diagnostics if available
-      if (endpointInfo.diagnostics) {
+      const warnings = [
+        ...schemeWarnings,
+        ...checkDocumentTypes(serviceMetadata.documentTypes, this.documentTypes),
+        ...this.checkNetworkCertificates(result)
+      ];
+      if (warnings.length > 0) {
+        result.diagnostics = {
+          ...endpointInfo.diagnostics,
+          warnings: [...(endpointInfo.diagnostics?.warnings ?? []), ...warnings]
+        };
+      } else if (endpointInfo.diagnostics) {
         result.diagnostics = endpointInfo.diagnostics;
       }
 
+      // A later call may get the missing part, so do not keep the result without it
+      if (!incomplete) {
+        await this.cache?.setParticipantInfo(
+          this.config.smlDomain,
+          this.config.lookupStrategy,
+          participantId,
+          optionsKey,
+          result
+        );
+      }
       return result;
     } catch (error: unknown) {
+      const resolverError = toSMPResolverError(error, options.signal);
       return {
         participantId,
         isRegistered: false,
         registrationStatus: 'unregistered',
         hasActiveEndpoints: false,
-        error: error instanceof Error ? error.message : String(error)
+        error: resolverError.message,
+        errorCode: resolverError.code
       };
     }
   }
 
+  /**
+   * Resolves a list of participants with bounded concurrency
+   * Results are returned in input order; failures are reported per item instead of thrown.
+   *
+   * @param participantIds - Participant IDs to resolve (duplicates are served from the cache)
+   * @param options - Resolve options plus concurrency and progress reporting
+   */
+  async resolveMany(
+    participantIds: Array<string | ParticipantIdentifier>,
+    options: ResolveManyOptions = {}
+  ): Promise<BatchResolutionResult[]> {
+    const { concurrency = 10, onProgress, ...resolveOptions } = options;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new SMPResolverError(
+        'INVALID_OPTIONS',
+        'Invalid concurrency. Expected a positive integer'
+      );
+    }
+
+    const results: BatchResolutionResult[] = new Array(participantIds.length);
+    let nextIndex = 0;
+    let completed = 0;
+
+    // Each worker pulls the next participant as soon as it is done with the previous one
+    const worker = async (): Promise<void> => {
+      while (nextIndex < participantIds.length) {
+        const index = nextIndex++;
+        const participantId = formatParticipantInput(participantIds[index]);
+        const start = Date.now();
+
+        try {
+          const result = await this.resolve(participantIds[index], resolveOptions);
+          results[index] = {
+            participantId,
+            result,
+            ...(result.error && { error: result.error }),
+            ...(result.errorCode && { errorCode: result.errorCode }),
+            durationMs: Date.now() - start
+          };
+        } catch (error: unknown) {
+          const resolverError = toSMPResolverError(error);
+          results[index] = {
+            participantId,
+            error: resolverError.message,
+            errorCode: resolverError.code,
+            durationMs: Date.now() - start
+          };
+        }
+
+        completed++;
+        onProgress?.(completed, participantIds.length);
+      }
+    };
+
+    const workerCount = Math.min(concurrency, participantIds.length);
+    await Promise.all(Array.from({ length: workerCount }, worker));
+
+    return results;
+  }
+
+  /**
+   * Resolves participants from a (possibly unbounded) source with bounded concurrency
+   *
+   * The source is only pulled when a resolution slot is free and the consumer keeps reading,
+   * so memory stays bounded by `concurrency`. Compose with Node streams via Readable.from().
+   *
+   * @param source - Participant IDs, e.g. readline lines or an array
+   * @param options - Resolve options plus concurrency and ordering
+   */
+  async *resolveStream(
+    source:
+      | AsyncIterable<string | ParticipantIdentifier>
+      | Iterable<string | ParticipantIdentifier>,
+    options: ResolveStreamOptions = {}
+  ): AsyncGenerator<ParticipantInfo> {
+    const { concurrency = 10, ordered = true, ...resolveOptions } = options;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new SMPResolverError(
+        'INVALID_OPTIONS',
+        'Invalid concurrency. Expected a positive integer'
+      );
+    }
+
+    const iterator = (async function* () {
+      yield* source;
+    })();
+
+    // In-flight resolutions in source order, keyed by sequence number
+    const inFlight = new Map<number, Promise<{ sequence: number; info: ParticipantInfo }>>();
+    let sequence = 0;
+    let exhausted = false;
+
+    try {
+      while (true) {
+        while (!exhausted && inFlight.size < concurrency) {
+          const next = await iterator.next();
+          if (next.done) {
+            exhausted = true;
+            break;
+          }
+
+          const current = sequence++;
+          inFlight.set(
+            current,
+            this.resolveSettled(next.value, resolveOptions).then(info => ({
+              sequence: current,
+              info
+            }))
+          );
+        }
+
+        if (inFlight.size === 0) {
+          return;
+        }
+
+        // Ordered mode waits for the oldest resolution, unordered takes whichever finishes first
+        const settled = ordered
+          ? await inFlight.values().next().value!
+          : await Promise.race(inFlight.values());
+        inFlight.delete(settled.sequence);
+        yield settled.info;
+      }
+    } finally {
+      // Consumer stopped early: release the source
+      await iterator.return(undefined);
+    }
+  }
+
   /**
    * Gets business card information (peppolcheck compatibility)
    */
-  async getBusinessCard(participantId: string, _options?: ResolveOptions): Promise<BusinessCard> {
+  async getBusinessCard(
+    participantId: string | ParticipantIdentifier,
+    options?: ResolveOptions
+  ): Promise<BusinessCard> {
+    const normalizedId = this.normalizeParticipantId(participantId);
+    return this.instrumentation.run('getBusinessCard', normalizedId, async () =>
+      withNormalizedFrom(
+        await this.fetchBusinessCard(normalizedId, options),
+        participantId,
+        normalizedId
+      )
+    );
+  }
+
+  private async fetchBusinessCard(
+    participantId: string,
+    options?: ResolveOptions
+  ): Promise<BusinessCard> {
+    const { signal } = withDeadline(options);
+
     // Get SMP URL via DNS
-    const [scheme, value] = participantId.split(':');
-    if (!scheme || !value) {
-      throw new Error('Invalid participant ID format');
-    }
+    const [scheme, value] = this.parseParticipantId(participantId);
 
-    const hash = hashParticipantId(value, scheme);
-    const smpUrl = await this.naptrResolver.lookupSMP(hash, scheme, this.config.smlDomain);
+    const smpUrl = await this.lookupSMPUrl(participantId, signal);
 
     if (!smpUrl) {
-      throw new Error('Participant not registered');
+      throw new DNSError('DNS_NXDOMAIN', 'Participant not registered', { participantId });
     }
 
     const smpHostname = new URL(smpUrl).hostname;
 
     // Try to fetch business card XML using full SMP URL (includes path)
-    const businessEntity = await this.fetchBusinessCardXML(participantId, smpUrl);
+    const businessEntity = await this.fetchBusinessCardXML(participantId, smpUrl, signal);
 
     // Build business card response
     const businessCard: BusinessCard = {
       entity: businessEntity || {
         name: 'Unknown',
         countryCode: '',
-        identifiers: [
-          {
-            scheme: participantId.split(':')[0],
-            value: participantId.split(':')[1]
-          }
-        ]
+        identifiers: [{ scheme, value }]
       },
       smpHostname
     };
@@ -245,32 +799,52 @@ export class SMPResolver {
   /**
    * Gets endpoint URLs only (bulk processor compatibility)
    */
-  async getEndpointUrls(participantId: string): Promise<EndpointInfo> {
+  async getEndpointUrls(
+    participantId: string | ParticipantIdentifier,
+    options?: ResolveOptions
+  ): Promise<EndpointInfo> {
+    const normalizedId = this.normalizeParticipantId(participantId);
+    return this.instrumentation.run('getEndpointUrls', normalizedId, async () =>
+      withNormalizedFrom(
+        await this.fetchEndpointUrls(normalizedId, options),
+        participantId,
+        normalizedId
+      )
+    );
+  }
+
+  private async fetchEndpointUrls(
+    participantId: string,
+    options?: ResolveOptions
+  ): Promise<EndpointInfo> {
+    const { signal } = withDeadline(options);
+
     try {
       // Parse participant ID
-      const [scheme, value] = participantId.split(':');
-      if (!scheme || !value) {
-        throw new Error('Invalid participant ID format');
-      }
+      this.parseParticipantId(participantId);
 
       // Get SMP URL via DNS
-      const hash = hashParticipantId(value, scheme);
-      const smpUrl = await this.naptrResolver.lookupSMP(hash, scheme, this.config.smlDomain);
+      const smpUrl = await this.lookupSMPUrl(participantId, signal);
 
       if (!smpUrl) {
-        throw new Error('No SMP found via DNS lookup');
+        throw new DNSError('DNS_NXDOMAIN', 'No SMP found via DNS lookup', { participantId });
       }
 
       // Fetch ServiceGroup to get document references
       const serviceGroupUrl = `${smpUrl}/iso6523-actorid-upis::${participantId}`;
-      const response = await this.redirectHandler.followRedirects(serviceGroupUrl);
+      const response = await this.fetchSMPResource('servicegroup', serviceGroupUrl, signal);
 
       if (response.statusCode !== 200) {
-        throw new Error(`SMP returned status ${response.statusCode}`);
+        throw new SMPHTTPError(response.statusCode, {
+          phase: 'service-group',
+          url: serviceGroupUrl
+        });
       }
 
       // Parse ServiceGroup
-      const serviceGroup = this.xmlParser.parseServiceGroup(response.body);
+      const serviceGroup = this.parseXML('service-group', response.body, xml =>
+        this.xmlParser.parseServiceGroup(xml)
+      );
 
       // Extract hostname
       const smpHostname = new URL(smpUrl).hostname;
@@ -280,29 +854,21 @@ export class SMPResolver {
       if (serviceGroup.serviceReferences.length > 0) {
         try {
           const metadataUrl = serviceGroup.serviceReferences[0];
-          const metadataResponse = await this.redirectHandler.followRedirects(metadataUrl);
-
-          if (metadataResponse.statusCode === 200) {
-            const metadata = this.xmlParser.parseServiceMetadata(metadataResponse.body);
-
-            // Get first endpoint from first process of first document type
-            if (metadata.documentTypes.length > 0) {
-              const docType = metadata.documentTypes[0];
-              if (docType.processes.length > 0) {
-                const process = docType.processes[0];
-                if (process.endpoints.length > 0) {
-                  const endpoint = process.endpoints[0];
-                  endpointData = {
-                    url: endpoint.endpointUrl,
-                    transportProfile: endpoint.transportProfile,
-                    technicalContactUrl: endpoint.technicalContactUrl,
-                    technicalInformationUrl: endpoint.technicalInformationUrl,
-                    serviceDescription: endpoint.serviceDescription,
-                    certificate: endpoint.certificate
-                  };
-                }
-              }
-            }
+          const metadata = await this.fetchDocumentTypeMetadata(metadataUrl, { signal });
+
+          const endpoint = selectEndpoint(
+            metadata.documentTypes[0],
+            this.network.transportProfiles
+          );
+          if (endpoint) {
+            endpointData = {
+              url: endpoint.endpointUrl,
+              transportProfile: endpoint.transportProfile,
+              technicalContactUrl: endpoint.technicalContactUrl,
+              technicalInformationUrl: endpoint.technicalInformationUrl,
+              serviceDescription: endpoint.serviceDescription,
+              certificate: endpoint.certificate
+            };
           }
         } catch {
           // Continue even if metadata fetch fails
@@ -311,9 +877,321 @@ export class SMPResolver {
 
       return { smpHostname, endpoint: endpointData };
     } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to get endpoint URLs: ${message}`);
+      // Keep the code and context of the underlying failure
+      const cause = toSMPResolverError(error, signal);
+      throw new SMPResolverError(
+        cause.code,
+        `Failed to get endpoint URLs: ${cause.message}`,
+        cause.context,
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Resolves the complete capability matrix of a participant
+   * Fetches every ServiceMetadataReference from the ServiceGroup and returns the full
+   * document type → process → endpoint tree
+   *
+   * @param participantId - Full participant ID (e.g., "0208:0837977428")
+   * @param options - Set verifySignature to verify each SignedServiceMetadata resource
+   * @returns All document types with their processes and endpoints
+   */
+  async resolveCapabilities(
+    participantId: string | ParticipantIdentifier,
+    options?: ResolveOptions
+  ): Promise<ParticipantCapabilities> {
+    const normalizedId = this.normalizeParticipantId(participantId);
+    return this.instrumentation.run('resolveCapabilities', normalizedId, async () =>
+      withNormalizedFrom(
+        await this.fetchCapabilities(normalizedId, options),
+        participantId,
+        normalizedId
+      )
+    );
+  }
+
+  private async fetchCapabilities(
+    participantId: string,
+    options?: ResolveOptions
+  ): Promise<ParticipantCapabilities> {
+    options = withDeadline(options);
+
+    // Parse participant ID
+    this.parseParticipantId(participantId);
+
+    // Get SMP URL via DNS
+    const smpUrl = await this.lookupSMPUrl(participantId, options.signal);
+
+    if (!smpUrl) {
+      throw new DNSError('DNS_NXDOMAIN', 'No SMP found via DNS lookup', { participantId });
+    }
+
+    const smpHostname = new URL(smpUrl).hostname;
+
+    let serviceMetadata: ServiceMetadata;
+    try {
+      serviceMetadata = await this.fetchServiceMetadata(smpUrl, participantId, options.signal);
+    } catch (error) {
+      // No ServiceGroup means the participant is parked: registered without capabilities
+      if (error instanceof SMPHTTPError && error.statusCode === 404) {
+        return { participantId, smpHostname, documentTypes: [] };
+      }
+      throw error;
+    }
+
+    const smpErrors: NonNullable<ResolutionDiagnostics['smpErrors']> = [];
+    const redirects: SMPRedirect[] = [];
+
+    // Fetch all ServiceMetadata resources in parallel (the HTTP pool bounds concurrency per SMP)
+    const documentTypes = await Promise.all(
+      serviceMetadata.documentTypes.map(async docType => {
+        const metadataUrl = this.buildServiceMetadataUrl(smpUrl, participantId, docType);
+        try {
+          const fetched = await this.fetchDocumentTypeMetadata(metadataUrl, options);
+          redirects.push(...fetched.redirects);
+          if (fetched.documentTypes.length === 0) {
+            return docType;
+          }
+          // Keep the code list based friendly name from the ServiceGroup reference
+          return {
+            ...fetched.documentTypes[0],
+            friendlyName: docType.friendlyName,
+            signature: fetched.signature
+          };
+        } catch (error) {
+          // Strict redirect verification fails the whole resolution
+          if (error instanceof RedirectCertificateError) {
+            throw error;
+          }
+          smpErrors.push({
+            url: metadataUrl,
+            statusCode: error instanceof SMPHTTPError ? error.statusCode : 0,
+            message: error instanceof Error ? error.message : String(error),
+            errorCode: toSMPResolverError(error, options.signal).code
+          });
+          // Still report the advertised document type, without processes
+          return docType;
+        }
+      })
+    );
+
+    return {
+      participantId,
+      smpHostname,
+      documentTypes,
+      diagnostics: buildDiagnostics(
+        smpErrors,
+        redirects,
+        checkDocumentTypes(documentTypes, this.documentTypes)
+      )
+    };
+  }
+
+  /**
+   * Checks whether a participant can receive a specific document type for a process
+   * Only fetches the single /services/{docId} resource, as in the SMP discovery flow
+   *
+   * @param participantId - Full participant ID (e.g., "0208:0837977428")
+   * @param documentTypeId - Document type identifier, optionally prefixed with its scheme
+   *                         (defaults to "busdox-docid-qns")
+   * @param processId - Process identifier, optionally prefixed with its scheme
+   *                    (defaults to "cenbii-procid-ubl")
+   * @param transportProfile - Required transport profile (e.g., "peppol-transport-as4-v2_0")
+   * @param options - Set verifySignature to verify the SignedServiceMetadata resource
+   * @returns Yes/no answer with the matching endpoint, or the reason for "no"
+   */
+  async canReceive(
+    participantId: string | ParticipantIdentifier,
+    documentTypeId: string,
+    processId: string,
+    transportProfile?: string,
+    options?: ResolveOptions
+  ): Promise<CapabilityCheckResult> {
+    const normalizedId = this.normalizeParticipantId(participantId);
+    return this.instrumentation.run('canReceive', normalizedId, async () =>
+      withNormalizedFrom(
+        await this.checkCapability(
+          normalizedId,
+          documentTypeId,
+          processId,
+          transportProfile,
+          options
+        ),
+        participantId,
+        normalizedId
+      )
+    );
+  }
+
+  private async checkCapability(
+    participantId: string,
+    documentTypeId: string,
+    processId: string,
+    transportProfile?: string,
+    options?: ResolveOptions
+  ): Promise<CapabilityCheckResult> {
+    options = withDeadline(options);
+
+    // Parse participant ID
+    this.parseParticipantId(participantId);
+
+    // Get SMP URL via DNS
+    const smpUrl = await this.lookupSMPUrl(participantId, options.signal);
+
+    if (!smpUrl) {
+      return { participantId, canReceive: false, reason: 'participant-not-registered' };
+    }
+
+    const smpHostname = new URL(smpUrl).hostname;
+    const docIdentifier = splitIdentifierScheme(documentTypeId, 'busdox-docid-qns');
+    const processIdentifier = splitIdentifierScheme(processId, 'cenbii-procid-ubl');
+
+    const metadataUrl = this.buildServiceMetadataUrl(smpUrl, participantId, {
+      documentIdentifier: docIdentifier,
+      processes: []
+    });
+
+    let fetched = await this.fetchRegisteredDocumentType(metadataUrl, options);
+    let matchedDocumentType: DocumentType['documentIdentifier'] | undefined;
+
+    // Without an exact registration, a peppol-doctype-wildcard one may cover the document type
+    if (!fetched && docIdentifier.scheme === DOCUMENT_TYPE_IDENTIFIER_SCHEME) {
+      const wildcard = await this.findWildcardRegistration(
+        smpUrl,
+        participantId,
+        docIdentifier,
+        options.signal
+      );
+      if (wildcard) {
+        matchedDocumentType = { scheme: wildcard.scheme, value: wildcard.value };
+        fetched = await this.fetchRegisteredDocumentType(
+          this.buildServiceMetadataUrl(smpUrl, participantId, {
+            documentIdentifier: matchedDocumentType,
+            processes: []
+          }),
+          options
+        );
+      }
+    }
+
+    if (!fetched) {
+      return {
+        participantId,
+        canReceive: false,
+        reason: 'document-type-not-supported',
+        smpHostname
+      };
+    }
+
+    const diagnostics = buildDiagnostics([], fetched.redirects);
+    const signature = fetched.signature;
+
+    // Find the requested process
+    const process = fetched.documentTypes[0]?.processes.find(
+      p =>
+        p.processIdentifier.scheme === processIdentifier.scheme &&
+        p.processIdentifier.value === processIdentifier.value
+    );
+    if (!process) {
+      return {
+        participantId,
+        canReceive: false,
+        reason: 'process-not-supported',
+        smpHostname,
+        ...(matchedDocumentType && { matchedDocumentType }),
+        signature,
+        diagnostics
+      };
     }
+
+    // Narrow down to the requested transport profile
+    const candidates = transportProfile
+      ? process.endpoints.filter(e => e.transportProfile === transportProfile)
+      : process.endpoints;
+    if (candidates.length === 0) {
+      return {
+        participantId,
+        canReceive: false,
+        reason: 'transport-profile-not-supported',
+        smpHostname,
+        ...(matchedDocumentType && { matchedDocumentType }),
+        signature,
+        diagnostics
+      };
+    }
+
+    // Senders must ignore endpoints that are not yet activated or already expired
+    const now = new Date();
+    const endpoint = candidates.find(e => getEndpointValidity(e, now) === 'active');
+    if (!endpoint) {
+      const validity = getEndpointValidity(candidates[0], now);
+      return {
+        participantId,
+        canReceive: false,
+        reason: validity === 'not-yet-active' ? 'endpoint-not-yet-active' : 'endpoint-expired',
+        smpHostname,
+        ...(matchedDocumentType && { matchedDocumentType }),
+        signature,
+        diagnostics
+      };
+    }
+
+    return {
+      participantId,
+      canReceive: true,
+      smpHostname,
+      ...(matchedDocumentType && { matchedDocumentType }),
+      endpoint,
+      signature,
+      diagnostics
+    };
+  }
+
+  /**
+   * fetchDocumentTypeMetadata(), undefined when the document type is not registered (404)
+   */
+  private async fetchRegisteredDocumentType(
+    metadataUrl: string,
+    options: ResolveOptions
+  ): Promise<FetchedServiceMetadata | undefined> {
+    try {
+      return await this.fetchDocumentTypeMetadata(metadataUrl, options);
+    } catch (error) {
+      if (error instanceof SMPHTTPError && error.statusCode === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Picks the best peppol-doctype-wildcard registration covering a document type from the
+   * participant's ServiceGroup, undefined when there is none
+   */
+  private async findWildcardRegistration(
+    smpUrl: string,
+    participantId: string,
+    documentIdentifier: { scheme: string; value: string },
+    signal?: AbortSignal
+  ): Promise<DocumentTypeIdentifier | undefined> {
+    let serviceMetadata: ServiceMetadata;
+    try {
+      serviceMetadata = await this.fetchServiceMetadata(smpUrl, participantId, signal);
+    } catch (error) {
+      if (error instanceof SMPHTTPError && error.statusCode === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+
+    const wildcards = serviceMetadata.documentTypes
+      .map(({ documentIdentifier: { scheme, value } }) => new DocumentTypeIdentifier(scheme, value))
+      .filter(identifier => identifier.isWildcard);
+    return DocumentTypeIdentifier.findBestMatch(
+      new DocumentTypeIdentifier(documentIdentifier.scheme, documentIdentifier.value),
+      wildcards
+    );
   }
 
   /**
@@ -321,20 +1199,26 @@ export class SMPResolver {
    */
   private async fetchServiceMetadata(
     smpUrl: string,
-    participantId: string
+    participantId: string,
+    signal?: AbortSignal
   ): Promise<ServiceMetadata> {
     // Construct ServiceGroup URL with full PEPPOL identifier format
     const serviceGroupUrl = `${smpUrl}/iso6523-actorid-upis::${participantId}`;
 
     // Fetch and follow redirects
-    const response = await this.redirectHandler.followRedirects(serviceGroupUrl);
+    const response = await this.fetchSMPResource('servicegroup', serviceGroupUrl, signal);
 
     if (response.statusCode !== 200) {
-      throw new Error(`SMP returned status ${response.statusCode}`);
+      throw new SMPHTTPError(response.statusCode, {
+        phase: 'service-group',
+        url: serviceGroupUrl
+      });
     }
 
     // Parse ServiceGroup
-    const serviceGroup = this.xmlParser.parseServiceGroup(response.body);
+    const serviceGroup = this.parseXML('service-group', response.body, xml =>
+      this.xmlParser.parseServiceGroup(xml)
+    );
 
     // Extract document types from service references
     const documentTypes: DocumentType[] = [];
@@ -353,25 +1237,13 @@ export class SMPResolver {
       
       // If we found a document ID, add it
       if (docId) {
-        // Extract scheme from document ID if present
-        let scheme = 'busdox-docid-qns';
-        let value = docId;
-        
-        // Check if document ID contains scheme prefix
-        if (docId.includes('::')) {
-          const parts = docId.split('::');
-          if (parts.length >= 2) {
-            scheme = parts[0];
-            value = parts.slice(1).join('::');
-          }
-        }
+        // Scheme prefix is optional, busdox-docid-qns when absent
+        const { scheme, value } = DocumentTypeIdentifier.parse(docId);
+        const documentIdentifier = { scheme, value };
 
         documentTypes.push({
-          documentIdentifier: {
-            scheme,
-            value
-          },
-          friendlyName: this.extractFriendlyDocumentName(value),
+          documentIdentifier,
+          ...describeDocumentType(documentIdentifier, this.documentTypes),
           processes: []
         });
       }
@@ -384,6 +1256,229 @@ export class SMPResolver {
     };
   }
 
+  /**
+   * resolve() that never rejects, unexpected failures become an unregistered result
+   */
+  private async resolveSettled(
+    participantId: string | ParticipantIdentifier,
+    options: ResolveOptions
+  ): Promise<ParticipantInfo> {
+    try {
+      return await this.resolve(participantId, options);
+    } catch (error: unknown) {
+      const resolverError = toSMPResolverError(error, options.signal);
+      return {
+        participantId: formatParticipantInput(participantId),
+        isRegistered: false,
+        registrationStatus: 'unregistered',
+        hasActiveEndpoints: false,
+        error: resolverError.message,
+        errorCode: resolverError.code
+      };
+    }
+  }
+
+  /**
+   * Performs the SML lookup through the resolution cache (including negative answers)
+   */
+  private async locateSMP(
+    participantId: string,
+    signal?: AbortSignal
+  ): Promise<SMPLocation | null> {
+    const { smlDomain, lookupStrategy } = this.config;
+    const cached = await this.cache?.getSMPLocation(smlDomain, lookupStrategy, participantId);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const location = await this.naptrResolver.locateSMP(participantId, smlDomain, signal);
+    await this.cache?.setSMPLocation(smlDomain, lookupStrategy, participantId, location);
+    return location;
+  }
+
+  /**
+   * Brings any participant ID notation into the bare scheme:value form used internally,
+   * applying the identifier scheme's normalization rules unless disabled by configuration
+   * Malformed IDs are returned as given and rejected by parseParticipantId().
+   */
+  private normalizeParticipantId(participantId: string | ParticipantIdentifier): string {
+    const identifier = ParticipantId.tryParse(participantId);
+    const bareId =
+      identifier?.scheme.trim().toLowerCase() === PARTICIPANT_IDENTIFIER_SCHEME
+        ? identifier.value
+        : formatParticipantInput(participantId);
+    return this.config.normalizeIdentifiers ? normalizeParticipantId(bareId) : bareId;
+  }
+
+  /**
+   * Splits a participant ID into scheme and value, applying the configured validators
+   * Runs before any DNS lookup, so rejected IDs cost nothing.
+   */
+  private parseParticipantId(participantId: string): [scheme: string, value: string] {
+    const identifier = ParticipantId.parse(participantId);
+    if (identifier.scheme.toLowerCase() !== PARTICIPANT_IDENTIFIER_SCHEME) {
+      throw new InvalidParticipantIdError(participantId, {
+        reason: 'invalid-format',
+        message: `Unsupported participant identifier scheme "${identifier.scheme}"`
+      });
+    }
+
+    // Values may contain colons, only the first one separates the ICD code
+    const { icd: scheme, localValue: value } = identifier;
+    if (!scheme || !value) {
+      throw new InvalidParticipantIdError(participantId);
+    }
+
+    const validation = this.validators?.validate(participantId);
+    if (validation?.issue) {
+      throw new InvalidParticipantIdError(participantId, validation.issue);
+    }
+    return [scheme, value];
+  }
+
+  private async lookupSMPUrl(participantId: string, signal?: AbortSignal): Promise<string | null> {
+    return (await this.locateSMP(participantId, signal))?.smpUrl ?? null;
+  }
+
+  /**
+   * Fetches a ServiceGroup or ServiceMetadata resource through the resolution cache
+   */
+  private async fetchSMPResource(
+    kind: CachedResourceKind,
+    url: string,
+    signal?: AbortSignal
+  ): Promise<CachedResponse> {
+    const cached = await this.cache?.getResponse(kind, url);
+    if (cached) {
+      return cached;
+    }
+
+    let response;
+    try {
+      response = await this.redirectHandler.followRedirects(url, signal);
+    } catch (error) {
+      // Aborts are classified by the caller, typed errors already carry their code
+      if (error instanceof SMPResolverError || signal?.aborted) {
+        throw error;
+      }
+      throw new SMPResolverError(
+        'SMP_NETWORK_ERROR',
+        error instanceof Error ? error.message : String(error),
+        { phase: kind === 'servicegroup' ? 'service-group' : 'service-metadata', url },
+        { cause: error }
+      );
+    }
+
+    const result = {
+      finalUrl: response.finalUrl,
+      statusCode: response.statusCode,
+      body: response.body
+    };
+    await this.cache?.setResponse(kind, url, result);
+    return result;
+  }
+
+  /**
+   * Parses an SMP response, reporting the parse time to the instrumentation hooks
+   */
+  private parseXML<T>(
+    kind: 'service-group' | 'service-metadata',
+    xml: string,
+    parse: (xml: string) => T
+  ): T {
+    return measure(
+      () => parse(xml),
+      timing => this.instrumentation.onXMLParse({ kind, bytes: Buffer.byteLength(xml), ...timing })
+    );
+  }
+
+  /**
+   * Builds the SignedServiceMetadata URL for a document type of a participant
+   */
+  private buildServiceMetadataUrl(
+    smpUrl: string,
+    participantId: string,
+    docType: DocumentType
+  ): string {
+    // Include the scheme in the document identifier
+    const fullDocId = `${docType.documentIdentifier.scheme}::${docType.documentIdentifier.value}`;
+    const encodedDocId = encodeURIComponent(fullDocId);
+    return `${smpUrl}/iso6523-actorid-upis::${participantId}/services/${encodedDocId}`;
+  }
+
+  /**
+   * Fetches and parses a single SignedServiceMetadata resource
+   * Follows SMP-level <Redirect> elements (max one hop) and records the redirect chain.
+   * Optionally verifies the XML-DSig signature of the final resource.
+   * Throws SMPHTTPError for non-200 responses
+   */
+  private async fetchDocumentTypeMetadata(
+    metadataUrl: string,
+    options?: ResolveOptions
+  ): Promise<FetchedServiceMetadata> {
+    const redirects: SMPRedirect[] = [];
+    let currentUrl = metadataUrl;
+
+    for (;;) {
+      const response = await this.fetchSMPResource('servicemetadata', currentUrl, options?.signal);
+
+      if (response.statusCode !== 200) {
+        throw new SMPHTTPError(
+          response.statusCode,
+          { phase: 'service-metadata', url: currentUrl },
+          `SMP returned HTTP ${response.statusCode} when fetching service metadata`
+        );
+      }
+
+      const metadata = this.parseXML('service-metadata', response.body, xml =>
+        this.xmlParser.parseServiceMetadata(xml)
+      );
+      if (!metadata.redirect) {
+        // The destination signature is needed to check a redirect's CertificateUID
+        const lastRedirect = redirects[redirects.length - 1];
+        const signature =
+          options?.verifySignature || lastRedirect?.certificateUID
+            ? this.signatureVerifier.verify(response.body)
+            : undefined;
+
+        if (lastRedirect?.certificateUID && signature) {
+          lastRedirect.certificateCheck = checkRedirectCertificate(
+            lastRedirect.certificateUID,
+            signature
+          );
+          if (
+            options?.strictRedirectVerification &&
+            lastRedirect.certificateCheck.status !== 'match'
+          ) {
+            throw new RedirectCertificateError(lastRedirect);
+          }
+        }
+
+        return {
+          documentTypes: metadata.documentTypes,
+          redirects,
+          signature: options?.verifySignature ? signature : undefined
+        };
+      }
+
+      if (redirects.length >= MAX_SMP_REDIRECTS) {
+        throw new RedirectError(
+          'REDIRECT_LIMIT',
+          `Maximum SMP redirects (${MAX_SMP_REDIRECTS}) exceeded at ${response.finalUrl}`,
+          { phase: 'service-metadata', url: response.finalUrl }
+        );
+      }
+
+      // The href holds the full address of the destination SMP record
+      const target = new URL(metadata.redirect, response.finalUrl).toString();
+      redirects.push({
+        from: response.finalUrl,
+        to: target,
+        certificateUID: metadata.redirectCertificateUID
+      });
+      currentUrl = target;
+    }
+  }
 
   /**
    * Extracts endpoint info from service metadata
@@ -391,69 +1486,68 @@ export class SMPResolver {
   private async extractEndpointInfo(
     metadata: ServiceMetadata,
     smpUrl: string,
-    participantId: string
-  ): Promise<EndpointInfo & { diagnostics?: ParticipantInfo['diagnostics'] }> {
+    participantId: string,
+    options?: ResolveOptions
+  ): Promise<
+    EndpointInfo & {
+      diagnostics?: ResolutionDiagnostics;
+      signature?: SignatureVerificationResult;
+    }
+  > {
     // Extract hostname from SMP URL
     const smpHostname = new URL(smpUrl).hostname;
-    const smpErrors: Array<{ url: string; statusCode: number; message: string }> = [];
+    const smpErrors: NonNullable<ResolutionDiagnostics['smpErrors']> = [];
+    let redirects: SMPRedirect[] = [];
 
     // Try to fetch first document type's metadata to get endpoints
     if (metadata.documentTypes.length > 0) {
+      // Construct URL for first document type
+      const metadataUrl = this.buildServiceMetadataUrl(
+        smpUrl,
+        participantId,
+        metadata.documentTypes[0]
+      );
+
       try {
-        // Construct URL for first document type
-        const docType = metadata.documentTypes[0];
-        // Include the scheme in the document identifier
-        const fullDocId = `${docType.documentIdentifier.scheme}::${docType.documentIdentifier.value}`;
-        const encodedDocId = encodeURIComponent(fullDocId);
-        const metadataUrl = `${smpUrl}/iso6523-actorid-upis::${participantId}/services/${encodedDocId}`;
-
-        const response = await this.redirectHandler.followRedirects(metadataUrl);
-
-        if (response.statusCode === 200) {
-          const serviceMetadata = this.xmlParser.parseServiceMetadata(response.body);
-
-          // Get first endpoint from first process of first document type
-          if (serviceMetadata.documentTypes.length > 0) {
-            const firstDoc = serviceMetadata.documentTypes[0];
-            if (firstDoc.processes.length > 0) {
-              const firstProcess = firstDoc.processes[0];
-              if (firstProcess.endpoints.length > 0) {
-                const endpoint = firstProcess.endpoints[0];
-                return {
-                  smpHostname,
-                  endpoint: {
-                    url: endpoint.endpointUrl,
-                    transportProfile: endpoint.transportProfile,
-                    technicalContactUrl: endpoint.technicalContactUrl,
-                    technicalInformationUrl: endpoint.technicalInformationUrl,
-                    serviceDescription: endpoint.serviceDescription,
-                    certificate: endpoint.certificate,
-                    serviceActivationDate: endpoint.serviceActivationDate,
-                    serviceExpirationDate: endpoint.serviceExpirationDate
-                  }
-                };
-              }
-            }
-          }
-        } else {
-          // Capture non-200 status codes
-          smpErrors.push({
-            url: metadataUrl,
-            statusCode: response.statusCode,
-            message: `SMP returned HTTP ${response.statusCode} when fetching service metadata`
-          });
+        const fetched = await this.fetchDocumentTypeMetadata(metadataUrl, options);
+        redirects = fetched.redirects;
+
+        const endpoint = selectEndpoint(fetched.documentTypes[0], this.network.transportProfiles);
+        if (endpoint) {
+          const { transportProfiles } = this.network;
+          const warnings =
+            transportProfiles.length > 0 && !transportProfiles.includes(endpoint.transportProfile)
+              ? [
+                  `Endpoint transport profile "${endpoint.transportProfile}" is not used on ${this.network.name}`
+                ]
+              : [];
+          return {
+            smpHostname,
+            endpoint: {
+              url: endpoint.endpointUrl,
+              transportProfile: endpoint.transportProfile,
+              technicalContactUrl: endpoint.technicalContactUrl,
+              technicalInformationUrl: endpoint.technicalInformationUrl,
+              serviceDescription: endpoint.serviceDescription,
+              certificate: endpoint.certificate,
+              serviceActivationDate: endpoint.serviceActivationDate,
+              serviceExpirationDate: endpoint.serviceExpirationDate
+            },
+            signature: fetched.signature,
+            diagnostics: buildDiagnostics(smpErrors, redirects, warnings)
+          };
         }
       } catch (error) {
-        // Capture any errors during metadata fetch
-        const docType = metadata.documentTypes[0];
-        const fullDocId = `${docType.documentIdentifier.scheme}::${docType.documentIdentifier.value}`;
-        const encodedDocId = encodeURIComponent(fullDocId);
-        const metadataUrl = `${smpUrl}/iso6523-actorid-upis::${participantId}/services/${encodedDocId}`;
-
+        // Strict redirect verification fails the whole resolution
+        if (error instanceof RedirectCertificateError) {
+          throw error;
+        }
+        // Capture non-200 status codes and any other errors during metadata fetch
         smpErrors.push({
           url: metadataUrl,
-          statusCode: 0,
-          message: error instanceof Error ? error.message : String(error)
+          statusCode: error instanceof SMPHTTPError ? error.statusCode : 0,
+          message: error instanceof Error ? error.message : String(error),
+          errorCode: toSMPResolverError(error, options?.signal).code
         });
       }
     }
@@ -461,41 +1555,33 @@ export class SMPResolver {
     return {
       smpHostname,
       endpoint: undefined,
-      diagnostics: smpErrors.length > 0 ? { smpErrors } : undefined
+      diagnostics: buildDiagnostics(smpErrors, redirects)
     };
   }
 
   /**
-   * Extracts a friendly name from document identifier
+   * Reports endpoint and SMP signing certificates that were not issued by the network's CAs
+   * (e.g. a test Access Point registered in the production SML)
    */
-  private extractFriendlyDocumentName(documentId: string): string {
-    // First try to look up in the official code list
-    const lookup = DocumentTypeLookup.getInstance();
-    const friendlyName = lookup.getFriendlyName(documentId);
-    
-    if (friendlyName) {
-      return friendlyName;
-    }
-    
-    // Fallback: extract a basic name from the document ID
-    // Remove scheme prefix if present
-    const withoutScheme = documentId.replace(/^[^:]+::/, '');
-    
-    // Try to extract document type from UBL format
-    const ublMatch = withoutScheme.match(/xsd:([^:]+)-\d+::([^#]+)##/);
-    if (ublMatch) {
-      return ublMatch[2];
-    }
-    
-    // Try to extract from CII format
-    const ciiMatch = withoutScheme.match(/standard:([^:]+):\d+::/);
-    if (ciiMatch) {
-      return ciiMatch[1];
-    }
-    
-    // Last resort: return the last meaningful part
-    const parts = withoutScheme.split('::');
-    return parts[parts.length - 1] || documentId;
+  private checkNetworkCertificates(result: ParticipantInfo): string[] {
+    const { name, apCAs, smpCAs } = this.network;
+    const warnings: string[] = [];
+
+    const certificate = result.certificateInfo;
+    if (certificate && apCAs.length > 0 && !isIssuedBy(certificate.issuerDN, apCAs)) {
+      warnings.push(
+        `Endpoint certificate is not issued by a ${name} Access Point CA (issuer: ${certificate.issuerDN})`
+      );
+    }
+
+    const signer = result.signature?.signerCertificate;
+    if (signer && smpCAs.length > 0 && !isIssuedBy(signer.issuerDN, smpCAs)) {
+      warnings.push(
+        `SMP signing certificate is not issued by a ${name} SMP CA (issuer: ${signer.issuerDN})`
+      );
+    }
+
+    return warnings;
   }
 
   /**
@@ -509,14 +1595,15 @@ export class SMPResolver {
    */
   private async fetchBusinessCardXML(
     participantId: string,
-    baseUrl: string
+    baseUrl: string,
+    signal?: AbortSignal
   ): Promise<BusinessEntity | null> {
-    const fullIdentifier = `iso6523-actorid-upis::${participantId}`;
-    const encodedParticipantId = encodeURIComponent(fullIdentifier);
+    const identifier = new ParticipantId(PARTICIPANT_IDENTIFIER_SCHEME, participantId);
+    const encodedParticipantId = identifier.toURLSegment();
 
     // Business card URL patterns to try (most common first)
     const patterns = [
-      `/businesscard/${fullIdentifier}`,
+      `/businesscard/${identifier.toURI()}`,
       `/${encodedParticipantId}/businesscard`,
       `/smp/businesscard/${encodedParticipantId}`,
       `/api/businesscard/${encodedParticipantId}`,
@@ -540,13 +1627,16 @@ export class SMPResolver {
       if (httpsTimedOut) break;
       const url = httpsBase + pattern;
       try {
-        const response = await this.httpClient.getWithTimeout(url, BC_TIMEOUT_MS);
-
-        if (response.statusCode === 200 && response.body.trim().startsWith('<')) {
-          return this.parseBusinessCardXML(response.body);
+        const body = await this.attemptBusinessCard(url, BC_TIMEOUT_MS, signal);
+        if (body) {
+          return this.parseBusinessCardXML(body);
         }
         // Got 404 or other response - server responds, continue trying patterns
-      } catch {
+      } catch (error) {
+        // Caller's deadline passed - do not start any further attempts
+        if (signal?.aborted) {
+          throw error;
+        }
         // HTTPS timeout/connection error - skip remaining HTTPS patterns
         httpsTimedOut = true;
       }
@@ -556,13 +1646,15 @@ export class SMPResolver {
     for (const pattern of patterns) {
       const url = httpBase + pattern;
       try {
-        const response = await this.httpClient.getWithTimeout(url, BC_TIMEOUT_MS);
-
-        if (response.statusCode === 200 && response.body.trim().startsWith('<')) {
-          return this.parseBusinessCardXML(response.body);
+        const body = await this.attemptBusinessCard(url, BC_TIMEOUT_MS, signal);
+        if (body) {
+          return this.parseBusinessCardXML(body);
         }
         // Got 404 or other response - continue trying patterns
-      } catch {
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
         // HTTP timeout - server doesn't support business cards, bail out
         break;
       }
@@ -571,6 +1663,41 @@ export class SMPResolver {
     return null;
   }
 
+  /**
+   * Fetches a single business card URL pattern
+   *
+   * @returns The business card XML, or null when the SMP does not serve one at this URL
+   */
+  private async attemptBusinessCard(
+    url: string,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    const startTime = Date.now();
+    const startedAt = performance.now();
+    try {
+      const response = await this.httpClient.getWithTimeout(url, timeoutMs, {}, signal);
+      const found = response.statusCode === 200 && response.body.trim().startsWith('<');
+      this.instrumentation.onBusinessCardAttempt({
+        url,
+        statusCode: response.statusCode,
+        found,
+        startTime,
+        durationMs: performance.now() - startedAt
+      });
+      return found ? response.body : null;
+    } catch (error) {
+      this.instrumentation.onBusinessCardAttempt({
+        url,
+        found: false,
+        startTime,
+        durationMs: performance.now() - startedAt,
+        error
+      });
+      throw error;
+    }
+  }
+
   /**
    * Parses business card XML to extract entity information
    */
@@ -602,12 +1729,11 @@ export class SMPResolver {
           /<(?:[\w]+:)?ParticipantIdentifier[^>]*scheme="([^"]+)"[^>]*>([^<]+)</
         );
         if (participantMatch) {
-          const fullId = participantMatch[2].trim();
-          const parts = fullId.split(':');
-          if (parts.length === 2) {
+          const identifier = ParticipantId.tryParse(participantMatch[2]);
+          if (identifier?.icd && identifier.localValue) {
             identifiers.push({
-              scheme: parts[0],
-              value: parts[1]
+              scheme: identifier.icd,
+              value: identifier.localValue
             });
           }
         }
@@ -669,13 +1795,42 @@ export class SMPResolver {
    */
   async close(): Promise<void> {
     await this.httpClient.close();
+    await this.cache?.close();
     this.certificateParser.clearCache();
   }
 
+  /**
+   * Network this resolver resolves against (SML domain, CAs, transport profiles)
+   */
+  getNetwork(): NetworkProfile {
+    return this.network;
+  }
+
   /**
    * Get certificate cache statistics (useful for monitoring bulk processing)
    */
   getCertificateCacheStats(): { size: number; fingerprints: string[] } {
     return this.certificateParser.getCacheStats();
   }
+
+  /**
+   * Get resolution cache hit/miss counters (NAPTR results, ServiceGroups, ServiceMetadata)
+   */
+  getCacheStats(): { enabled: boolean; hits: number; misses: number } {
+    return { enabled: this.cache !== null, ...(this.cache?.getStats() ?? { hits: 0, misses: 0 }) };
+  }
+
+  /**
+   * Get circuit breaker state of SMP origins with recent failures
+   */
+  getCircuitBreakerStats(): Record<string, CircuitBreakerStats> {
+    return this.httpClient.getCircuitBreakerStats();
+  }
+
+  /**
+   * Removes all entries from the resolution cache
+   */
+  async clearCache(): Promise<void> {
+    await this.cache?.clear();
+  }
 }
@@ -18,7 +18,7 @@ export function hashParticipantId(participantId: string, scheme: string): string
   // Step 1: Create canonical form
   const canonical = `${scheme}:${participantId}`;
 
-  // Step 2: SHA-256 hash (no lowercase on input)
+  // Step 2: SHA-256 hash (no lowercase on input, see normalizeParticipantId)
   const hash = createHash('sha256').update(canonical, 'utf8').digest();
 
   // Step 3: Base32 encode (RFC 4648)
@@ -28,6 +28,26 @@ export function hashParticipantId(participantId: string, scheme: string): string
   return base32.toLowerCase().replace(/=+$/, '');
 }
 
+/**
+ * Hashes a participant ID according to the legacy (pre-NAPTR) SML specification.
+ *
+ * Still published as CNAME records by older infrastructures and private networks:
+ * B-{hash}.iso6523-actorid-upis.{sml-domain}
+ *
+ * Process:
+ * 1. Create canonical form (scheme:value) and convert it to lowercase
+ * 2. Apply MD5 hash
+ * 3. Hex encode the result and prefix it with "B-"
+ *
+ * @param participantId The participant ID (without scheme prefix)
+ * @param scheme The participant scheme (e.g., "0208")
+ * @returns DNS label of the participant (e.g., "B-4f2d...")
+ */
+export function hashParticipantIdMD5(participantId: string, scheme: string): string {
+  const canonical = `${scheme}:${participantId}`.toLowerCase();
+  return `B-${createHash('md5').update(canonical, 'utf8').digest('hex')}`;
+}
+
 /**
  * Base32 encoding according to RFC 4648
  * Using the standard alphabet: ABCDEFGHIJKLMNOPQRSTUVWXYZ234567
@@ -1,3 +1,12 @@
+import type { CacheStore } from '../cache/cache-store.js';
+import type { RetryPolicy } from '../resilience/retry.js';
+import type { CircuitBreakerOptions } from '../resilience/circuit-breaker.js';
+import type { SMPResolverErrorCode } from '../errors/index.js';
+import type { ResolverInstrumentation } from '../instrumentation/instrumentation.js';
+import type { NetworkName, NetworkProfile } from '../network/profiles.js';
+import type { SMLLookupStrategy, SMLLookupMechanism } from '../dns/naptr-resolver.js';
+import type { IdentifierValidatorRegistry } from '../identifiers/validators.js';
+
 export interface ParticipantIdentifier {
   scheme: string;
   value: string;
@@ -37,13 +46,43 @@ export interface Process {
   endpoints: ServiceEndpoint[];
 }
 
+/**
+ * Syntax of a document type, from the root namespace of its identifier
+ */
+export type DocumentSyntax = 'UBL' | 'CII';
+
+/**
+ * Document type entry of the bundled Peppol code list
+ */
+export interface DocumentTypeInfo {
+  name: string;
+  scheme: string;
+  value: string;
+  state: 'active' | 'deprecated' | 'removed';  // Only active document types may be registered
+  category?: string;               // e.g. 'Invoice', 'Order', 'Despatch Advice'
+  domainCommunity?: string;        // e.g. 'POAC' (post-award), 'PRAC' (pre-award)
+  bisVersion?: string;             // Major Peppol BIS version (e.g. '3')
+  processIds: Array<{              // Process IDs the document type is used with
+    scheme: string;
+    value: string;
+  }>;
+  initialRelease?: string;         // Code list release that added the entry
+  deprecationRelease?: string;     // Code list release that deprecated the entry
+  removalDate?: string;            // Planned removal (YYYY-MM-DD)
+}
+
 export interface DocumentType {
   documentIdentifier: {
     scheme: string;
     value: string;
   };
   friendlyName?: string;
+  syntax?: DocumentSyntax;         // UBL or CII (busdox-docid-qns identifiers)
+  bisName?: string;                // Peppol BIS the customization complies with (e.g. 'Billing')
+  bisVersion?: string;             // Version of that BIS (e.g. '3.0')
+  codeListInfo?: DocumentTypeInfo; // Code list entry of the document type (when listed)
   processes: Process[];
+  signature?: SignatureVerificationResult;  // When verifySignature: true
 }
 
 export interface ServiceMetadata {
@@ -74,6 +113,7 @@ export interface BusinessEntity {
 export interface BusinessCard {
   entity: BusinessEntity;
   smpHostname: string;
+  normalizedFrom?: string;  // Participant ID as given, when it was normalized
 }
 
 export interface CertificateInfo {
@@ -84,12 +124,28 @@ export interface CertificateInfo {
   notBefore: Date;          // Validity start
   notAfter: Date;           // Validity end
   seatId?: string;          // Peppol SeatID extracted from CN (e.g., "POP000123")
+  subjectUID?: string;      // Subject UID attribute (OID 0.9.2342.19200300.100.1.1)
   isExpired: boolean;       // Convenience flag for validity check
   raw: string;              // Original base64/PEM certificate
 }
 
+/**
+ * Outcome of XML-DSig verification of a SignedServiceMetadata resource
+ */
+export type SignatureStatus =
+  | 'valid'     // Signature present and cryptographically valid
+  | 'invalid'   // Signature present but does not validate (see error)
+  | 'missing';  // No ds:Signature element in SignedServiceMetadata
+
+export interface SignatureVerificationResult {
+  status: SignatureStatus;
+  signerCertificate?: CertificateInfo;  // SMP signing certificate from ds:KeyInfo
+  error?: string;                       // Why the signature is invalid
+}
+
 export interface EndpointInfo {
   smpHostname: string;
+  normalizedFrom?: string;  // Participant ID as given, when it was normalized
   endpoint?: {
     url: string;
     transportProfile: string;
@@ -107,11 +163,26 @@ export type RegistrationStatus =
   | 'parked'          // Registered but no active endpoints
   | 'active';         // Registered with active endpoints
 
+/**
+ * Participant identifier scheme (ICD) from the bundled Peppol code list
+ */
+export interface ParticipantIdentifierSchemeInfo {
+  icd: string;                        // ISO 6523 ICD code, the scheme part of participant IDs (e.g. '0208')
+  schemeId: string;                   // Peppol scheme ID (e.g. 'BE:EN')
+  name: string;
+  issuingAgency: string;
+  country: string;                    // ISO 3166 country code or 'international'
+  state: 'active' | 'deprecated';     // Deprecated schemes must not be used for new registrations
+}
+
 export interface ParticipantInfo {
-  participantId: string;
+  participantId: string;              // Normalized participant ID that was resolved
+  normalizedFrom?: string;            // Participant ID as given, when it was normalized
+  schemeInfo?: ParticipantIdentifierSchemeInfo;  // Scheme of the participant ID (when in the code list)
   isRegistered: boolean;
   registrationStatus: RegistrationStatus;
   hasActiveEndpoints: boolean;
+  lookupMechanism?: SMLLookupMechanism;  // How the SML located the SMP (registered participants)
   smpHostname?: string;
   documentTypes?: string[];
   endpoint?: {
@@ -125,29 +196,143 @@ export interface ParticipantInfo {
     serviceExpirationDate?: Date;   // When endpoint expires
   };
   certificateInfo?: CertificateInfo;  // Parsed certificate (when parseCertificate: true)
+  signature?: SignatureVerificationResult;  // SMP signature check (when verifySignature: true)
   businessEntity?: BusinessEntity;
   error?: string;
-  diagnostics?: {
-    smpErrors?: Array<{
-      url: string;
-      statusCode: number;
-      message: string;
-    }>;
-    warnings?: string[];
+  errorCode?: SMPResolverErrorCode;   // Machine-readable counterpart of error
+  diagnostics?: ResolutionDiagnostics;
+  timings?: ResolutionTimings;        // Per-phase breakdown (when includeTimings: true)
+}
+
+/**
+ * Wall-clock time spent per resolution phase, in milliseconds
+ * Phases that were skipped (cache hits, options not requested) report 0.
+ */
+export interface ResolutionTimings {
+  dns: number;              // SML NAPTR lookup
+  serviceGroup: number;     // ServiceGroup fetch and parse
+  serviceMetadata: number;  // ServiceMetadata fetch, parse and signature verification
+  businessCard: number;     // Business card pattern attempts
+  certificate: number;      // Endpoint certificate parsing
+  total: number;            // Whole resolve() call
+  httpCalls: number;        // HTTP requests made, including retries and business card attempts
+}
+
+export interface ResolutionDiagnostics {
+  smpErrors?: Array<{
+    url: string;
+    statusCode: number;
+    message: string;
+    errorCode?: SMPResolverErrorCode;
+  }>;
+  warnings?: string[];
+  redirects?: SMPRedirect[];     // SMP-level <Redirect> hops that were followed
+}
+
+/**
+ * SMP-level redirect (ServiceMetadata/Redirect) followed during resolution
+ */
+export interface SMPRedirect {
+  from: string;   // URL of the redirecting SignedServiceMetadata resource
+  to: string;     // Redirect href at the destination SMP
+  certificateUID?: string;                      // Redirect/CertificateUID published by the redirecting SMP
+  certificateCheck?: RedirectCertificateCheck;  // Verification against the destination SMP signature
+}
+
+/**
+ * SMP spec 5.5.3: the destination SMP signing certificate must match the CertificateUID
+ * published by the redirecting SMP
+ */
+export interface RedirectCertificateCheck {
+  status:
+    | 'match'          // Destination SMP signed with the expected certificate
+    | 'mismatch'       // Destination SMP signed with a different certificate
+    | 'unverifiable';  // Destination signature missing or invalid, no trusted signer certificate
+  expectedUID: string;
+  actualUID?: string;         // Subject UID (or subject DN when absent) of the destination signer
+  actualSubjectDN?: string;
+  signatureStatus: SignatureStatus;  // Signature status of the destination resource
+}
+
+/**
+ * Complete document type → process → endpoint tree published by a participant's SMP
+ */
+export interface ParticipantCapabilities {
+  participantId: string;
+  normalizedFrom?: string;          // Participant ID as given, when it was normalized
+  smpHostname: string;
+  documentTypes: DocumentType[];    // One entry per ServiceMetadataReference
+  diagnostics?: ResolutionDiagnostics;
+}
+
+/**
+ * Why a participant cannot receive a given document type / process / transport profile
+ */
+export type CapabilityMismatchReason =
+  | 'participant-not-registered'       // No SMP found via DNS lookup
+  | 'document-type-not-supported'      // SMP has no ServiceMetadata for the document type
+  | 'process-not-supported'            // Document type registered, but not for this process
+  | 'transport-profile-not-supported'  // Process registered, but no endpoint with this profile
+  | 'endpoint-not-yet-active'          // Matching endpoint has a future ServiceActivationDate
+  | 'endpoint-expired';                // Matching endpoint has a past ServiceExpirationDate
+
+export interface CapabilityCheckResult {
+  participantId: string;
+  normalizedFrom?: string;            // Participant ID as given, when it was normalized
+  canReceive: boolean;
+  reason?: CapabilityMismatchReason;  // Set when canReceive is false
+  smpHostname?: string;
+  matchedDocumentType?: {             // peppol-doctype-wildcard registration covering the document type,
+    scheme: string;                   // set when there was no exact registration
+    value: string;
   };
+  endpoint?: ServiceEndpoint;         // Matching active endpoint when canReceive is true
+  signature?: SignatureVerificationResult;  // When verifySignature: true
+  diagnostics?: ResolutionDiagnostics;
 }
 
 export interface ResolveOptions {
   fetchDocumentTypes?: boolean;
   includeBusinessCard?: boolean;
   parseCertificate?: boolean;     // Parse X.509 certificate and extract SeatID (default: false)
-  timeout?: number;
+  verifySignature?: boolean;      // Verify XML-DSig signature of SignedServiceMetadata (default: false)
+  strictRedirectVerification?: boolean;  // Fail when a redirect's CertificateUID check does not match (default: false)
+  timeout?: number;               // Overall deadline in ms for the whole call (DNS, SMP, business card)
+  signal?: AbortSignal;           // Cancels the call, in-flight DNS/HTTP requests are aborted
+  includeTimings?: boolean;       // Add a per-phase timing breakdown to resolve() results (default: false)
+}
+
+export interface ResolveManyOptions extends ResolveOptions {
+  concurrency?: number;           // Maximum resolutions in flight at any time (default: 10)
+  onProgress?: (completed: number, total: number) => void;  // Called after each participant
+}
+
+export interface ResolveStreamOptions extends ResolveOptions {
+  concurrency?: number;           // Maximum resolutions in flight at any time (default: 10)
+  ordered?: boolean;              // Yield in source order (default: true), false yields as completed
+}
+
+export interface BatchResolutionResult {
+  participantId: string;
+  result?: ParticipantInfo;       // Absent only when resolution threw unexpectedly
+  error?: string;                 // Resolution error, mirrors result.error when set
+  errorCode?: SMPResolverErrorCode;
+  durationMs: number;             // Wall-clock time for this participant
 }
 
 export interface SMPResolverConfig {
-  smlDomain?: string;
+  network?: NetworkName | Partial<NetworkProfile>;  // Network preset or custom settings (default: 'peppol-prod')
+  smlDomain?: string;             // Overrides the SML domain of the network (required for 'custom')
+  lookupStrategy?: SMLLookupStrategy;  // SML lookup: 'naptr' (default), 'cname' or 'naptr-then-cname'
+  normalizeIdentifiers?: boolean; // Lowercase iso6523-actorid-upis participant IDs (default: true)
+  validateIdentifiers?: boolean | IdentifierValidatorRegistry;  // Check scheme format and check digits before DNS (default: false)
   dnsServers?: string[];
   httpTimeout?: number;
-  cacheTTL?: number;
+  cacheTTL?: number;              // Seconds to cache SML and SMP answers (default: 3600, 0 disables)
+  negativeCacheTTL?: number;      // Seconds to cache "not registered"/404 answers (default: 300)
+  cache?: CacheStore | false;     // Cache storage (default: in-memory LRU, false disables)
   userAgent?: string;
+  retry?: RetryPolicy | false;    // Retries for DNS lookups and SMP requests (default: 3 attempts)
+  circuitBreaker?: CircuitBreakerOptions | false;  // Per-SMP-origin circuit breaker (default: on)
+  instrumentation?: ResolverInstrumentation | ResolverInstrumentation[];  // Lifecycle hooks
 }
@@ -5,6 +5,9 @@ import type {
   DocumentType,
   ParticipantIdentifier
 } from '../types/index.js';
+import { SMPXMLError } from '../errors/index.js';
+import { describeDocumentType } from '../identifiers/document-type-identifier.js';
+import { DocumentTypeLookup } from '../data/document-types.js';
 
 /**
  * Robust XML parser for PEPPOL SMP responses
@@ -12,8 +15,13 @@ import type {
  */
 export class XMLParser {
   private parser: FastXMLParser;
+  private documentTypes: DocumentTypeLookup;
 
-  constructor() {
+  /**
+   * @param documentTypes - Code list naming the parsed document types (default: bundled)
+   */
+  constructor(documentTypes: DocumentTypeLookup = DocumentTypeLookup.getInstance()) {
+    this.documentTypes = documentTypes;
     // Configure fast-xml-parser for PEPPOL XML structures
     this.parser = new FastXMLParser({
       ignoreAttributes: false,
@@ -77,8 +85,9 @@ export class XMLParser {
         serviceReferences
       };
     } catch (error) {
-      throw new Error(
-        `Failed to parse ServiceGroup XML: ${error instanceof Error ? error.message : String(error)}`
+      throw new SMPXMLError(
+        `Failed to parse ServiceGroup XML: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error }
       );
     }
   }
@@ -89,6 +98,7 @@ export class XMLParser {
   parseServiceMetadata(xml: string): {
     documentTypes: DocumentType[];
     redirect?: string;
+    redirectCertificateUID?: string;
   } {
     try {
       const parsed = this.parser.parse(xml);
@@ -108,7 +118,8 @@ export class XMLParser {
         if (redirectHref) {
           return {
             documentTypes: [],
-            redirect: redirectHref
+            redirect: redirectHref,
+            redirectCertificateUID: this.getElementText(redirectElement, 'CertificateUID')
           };
         }
       }
@@ -139,7 +150,7 @@ export class XMLParser {
 
       const documentType: DocumentType = {
         documentIdentifier,
-        friendlyName: this.extractFriendlyName(documentIdentifier.value),
+        ...describeDocumentType(documentIdentifier, this.documentTypes),
         processes
       };
 
@@ -147,8 +158,9 @@ export class XMLParser {
         documentTypes: [documentType]
       };
     } catch (error) {
-      throw new Error(
-        `Failed to parse ServiceMetadata XML: ${error instanceof Error ? error.message : String(error)}`
+      throw new SMPXMLError(
+        `Failed to parse ServiceMetadata XML: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error }
       );
     }
   }
@@ -281,27 +293,6 @@ export class XMLParser {
     return text?.toLowerCase() === 'true';
   }
 
-  /**
-   * Extracts a friendly name from document identifier
-   */
-  private extractFriendlyName(documentId: string): string {
-    // Handle UBL format: urn:oasis:names:specification:ubl:schema:xsd:Invoice-2::Invoice##UBL-2.0
-    const ublMatch = documentId.match(/xsd:([^:]+)-\d+::([^#]+)##(.+)$/);
-    if (ublMatch) {
-      return `${ublMatch[2]} (${ublMatch[3]})`;
-    }
-
-    // Handle PEPPOL BIS format
-    const bisMatch = documentId.match(/urn:peppol:bis:billing:([^:]+):(.+)$/);
-    if (bisMatch) {
-      return `PEPPOL BIS ${bisMatch[1]} ${bisMatch[2]}`;
-    }
-
-    // Return last part after last colon or the whole ID
-    const parts = documentId.split('::');
-    return parts[parts.length - 1] || documentId;
-  }
-
   /**
    * Parses business card XML (if available from SMP extension)
    */
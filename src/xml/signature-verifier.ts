@@ -0,0 +1,134 @@
+import { DOMParser } from '@xmldom/xmldom';
+import { SignedXml } from 'xml-crypto';
+import type { CertificateParser } from '../certificate/parser.js';
+import type { CertificateInfo, SignatureVerificationResult } from '../types/index.js';
+
+const XMLDSIG_NAMESPACE = 'http://www.w3.org/2000/09/xmldsig#';
+
+/**
+ * Verifies the XML-DSig signature of SignedServiceMetadata responses (SMP spec section 5.5)
+ *
+ * The signature must be an enveloped signature embedded directly in the SignedServiceMetadata
+ * element, with the signer's X.509 certificate in ds:KeyInfo/ds:X509Data/ds:X509Certificate.
+ * Canonicalization and digest validation are delegated to xml-crypto.
+ */
+export class SignatureVerifier {
+  private certificateParser: CertificateParser;
+
+  constructor(certificateParser: CertificateParser) {
+    this.certificateParser = certificateParser;
+  }
+
+  /**
+   * Verifies the signature of a SignedServiceMetadata XML document
+   *
+   * @param xml - Raw SignedServiceMetadata XML as returned by the SMP
+   * @returns Verification status and the parsed SMP signing certificate when available
+   */
+  verify(xml: string): SignatureVerificationResult {
+    let document;
+    try {
+      document = new DOMParser({
+        errorHandler: {
+          warning: () => {},
+          error: (message: string) => {
+            throw new Error(message);
+          },
+          fatalError: (message: string) => {
+            throw new Error(message);
+          }
+        }
+      }).parseFromString(xml, 'text/xml');
+    } catch (error) {
+      return {
+        status: 'invalid',
+        error: `Failed to parse signed XML: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+
+    // The enveloped signature must be a direct child of the document element
+    const signatureNode = this.findChildElement(document.documentElement, 'Signature');
+    if (!signatureNode) {
+      return { status: 'missing' };
+    }
+
+    // Extract the SMP signing certificate from KeyInfo
+    const certificateNode = this.findDescendantElement(signatureNode, 'X509Certificate');
+    const certificate = certificateNode?.textContent?.trim();
+    if (!certificate) {
+      return {
+        status: 'invalid',
+        error: 'Signature KeyInfo does not contain an X509Certificate'
+      };
+    }
+
+    let signerCertificate: CertificateInfo;
+    try {
+      signerCertificate = this.certificateParser.parse(certificate);
+    } catch (error) {
+      return {
+        status: 'invalid',
+        error: `Failed to parse signer certificate: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+
+    // Canonicalize, check the reference digests and the signature value
+    const signedXml = new SignedXml({ getCertFromKeyInfo: SignedXml.getCertFromKeyInfo });
+    try {
+      signedXml.loadSignature(signatureNode);
+      if (!signedXml.checkSignature(xml)) {
+        return {
+          status: 'invalid',
+          signerCertificate,
+          error: 'Signature references could not be validated'
+        };
+      }
+    } catch (error) {
+      return {
+        status: 'invalid',
+        signerCertificate,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+
+    // An empty reference URI is the only way to cover the whole document
+    if (!signedXml.getReferences().some(reference => reference.uri === '')) {
+      return {
+        status: 'invalid',
+        signerCertificate,
+        error: 'Signature does not cover the whole SignedServiceMetadata document'
+      };
+    }
+
+    return { status: 'valid', signerCertificate };
+  }
+
+  /**
+   * Finds a direct child element in the XML-DSig namespace
+   */
+  private findChildElement(parent: any, localName: string): any {
+    if (!parent) {
+      return null;
+    }
+
+    for (let node = parent.firstChild; node; node = node.nextSibling) {
+      if (
+        node.nodeType === 1 &&
+        node.localName === localName &&
+        node.namespaceURI === XMLDSIG_NAMESPACE
+      ) {
+        return node;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Finds the first descendant element in the XML-DSig namespace
+   */
+  private findDescendantElement(parent: any, localName: string): any {
+    const elements = parent.getElementsByTagNameNS(XMLDSIG_NAMESPACE, localName);
+    return elements.length > 0 ? elements[0] : null;
+  }
+}
@@ -18,7 +18,7 @@
 import { readFileSync } from 'fs';
 import { resolve, dirname } from 'path';
 import { fileURLToPath } from 'url';
-import { SMPResolver } from '../../src/index.js';
+import { SMPResolver, type ResolutionTimings } from '../../src/index.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -52,6 +52,7 @@ interface TimingResult {
   smpHostname: string | null;
   businessCardFound: boolean;
   totalMs: number;
+  timings: ResolutionTimings | null;
   error: string | null;
   expectedSuccessRate: number;
 }
@@ -74,6 +75,7 @@ interface BenchmarkResults {
     p99TimeMs: number;
     maxTimeMs: number;
   };
+  byPhase: Record<string, { avgMs: number; p95Ms: number; p99Ms: number; maxMs: number }>;
   byStatus: Record<string, number>;
   bySmp: Record<string, { count: number; avgMs: number; successRate: number }>;
   byScheme: Record<string, { count: number; avgMs: number; successRate: number }>;
@@ -159,7 +161,6 @@ async function runBenchmark(
     httpTimeout: config.httpTimeout,
   });
 
-  const results: TimingResult[] = [];
   let completed = 0;
 
   // Progress tracking
@@ -173,56 +174,38 @@ async function runBenchmark(
     );
   }, 1000);
 
-  // Process in batches for concurrency
-  const batchSize = config.concurrency;
-  for (let i = 0; i < participants.length; i += batchSize) {
-    const batch = participants.slice(i, i + batchSize);
-
-    const batchResults = await Promise.all(
-      batch.map(async (participant): Promise<TimingResult> => {
-        const lookupStart = Date.now();
-
-        try {
-          const info = await resolver.resolve(participant.id, {
-            fetchDocumentTypes: true,
-            includeBusinessCard: config.includeBusinessCard,
-            parseCertificate: false, // Skip for benchmark speed
-          });
-
-          const totalMs = Date.now() - lookupStart;
-
-          return {
-            participantId: participant.id,
-            scheme: participant.scheme,
-            success: info.isRegistered,
-            registrationStatus: info.registrationStatus || null,
-            smpHostname: info.smpHostname || null,
-            businessCardFound:
-              !!info.businessEntity?.name && info.businessEntity.name !== 'Unknown',
-            totalMs,
-            error: info.error || null,
-            expectedSuccessRate: participant.successRate,
-          };
-        } catch (err: any) {
-          const totalMs = Date.now() - lookupStart;
-          return {
-            participantId: participant.id,
-            scheme: participant.scheme,
-            success: false,
-            registrationStatus: null,
-            smpHostname: null,
-            businessCardFound: false,
-            totalMs,
-            error: err.message || String(err),
-            expectedSuccessRate: participant.successRate,
-          };
-        }
-      })
-    );
-
-    results.push(...batchResults);
-    completed += batch.length;
-  }
+  const batchResults = await resolver.resolveMany(
+    participants.map(participant => participant.id),
+    {
+      fetchDocumentTypes: true,
+      includeBusinessCard: config.includeBusinessCard,
+      parseCertificate: false, // Skip for benchmark speed
+      includeTimings: true,
+      concurrency: config.concurrency,
+      onProgress: done => {
+        completed = done;
+      },
+    }
+  );
+
+  const results: TimingResult[] = batchResults.map((item, index) => {
+    const participant = participants[index];
+    const info = item.result;
+
+    return {
+      participantId: participant.id,
+      scheme: participant.scheme,
+      success: !!info?.isRegistered,
+      registrationStatus: info?.registrationStatus || null,
+      smpHostname: info?.smpHostname || null,
+      businessCardFound:
+        !!info?.businessEntity?.name && info.businessEntity.name !== 'Unknown',
+      totalMs: item.durationMs,
+      timings: info?.timings || null,
+      error: item.error || null,
+      expectedSuccessRate: participant.successRate,
+    };
+  });
 
   clearInterval(progressInterval);
   console.log(`\r  Progress: ${completed}/${participants.length} - Done!                    `);
@@ -251,6 +234,20 @@ async function runBenchmark(
     if (r.success) byScheme[r.scheme].successes++;
   }
 
+  // Per-phase breakdown, shows which timeout actually needs tuning
+  const phases = ['dns', 'serviceGroup', 'serviceMetadata', 'businessCard', 'httpCalls'] as const;
+  const byPhase: BenchmarkResults['byPhase'] = {};
+  for (const phase of phases) {
+    const values = results.flatMap(r => (r.timings ? [r.timings[phase]] : []));
+    if (values.length === 0) continue;
+    byPhase[phase] = {
+      avgMs: Math.round(values.reduce((a, b) => a + b, 0) / values.length),
+      p95Ms: percentile(values, 95),
+      p99Ms: percentile(values, 99),
+      maxMs: Math.max(...values),
+    };
+  }
+
   // Group by status
   const byStatus: Record<string, number> = {};
   for (const r of results) {
@@ -296,6 +293,7 @@ async function runBenchmark(
       p99TimeMs: percentile(times, 99),
       maxTimeMs: Math.max(...times),
     },
+    byPhase,
     byStatus,
     bySmp: Object.fromEntries(
       Object.entries(bySmp)
@@ -348,6 +346,14 @@ function printResults(results: BenchmarkResults) {
   console.log(`  p99:                ${results.summary.p99TimeMs}ms`);
   console.log(`  Max:                ${results.summary.maxTimeMs}ms`);
 
+  console.log('\n## Timing by Phase (avg / p95 / p99 / max)');
+  for (const [phase, stats] of Object.entries(results.byPhase)) {
+    const unit = phase === 'httpCalls' ? '' : 'ms';
+    console.log(
+      `  ${phase.padEnd(19)} ${stats.avgMs}${unit} / ${stats.p95Ms}${unit} / ${stats.p99Ms}${unit} / ${stats.maxMs}${unit}`
+    );
+  }
+
   console.log('\n## By Registration Status');
   for (const [status, count] of Object.entries(results.byStatus)) {
     console.log(`  ${status.padEnd(15)} ${count}`);
@@ -1,13 +1,70 @@
-import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest';
 import { SMPResolver } from '../../src/resolver.js';
+import { NAPTRResolver } from '../../src/dns/naptr-resolver.js';
+import {
+  RecordingTracer,
+  createTracingInstrumentation
+} from '../../src/instrumentation/tracing.js';
+import { PrometheusMetrics } from '../../src/metrics/prometheus.js';
+import { ParticipantId } from '../../src/identifiers/participant-identifier.js';
+import { MemoryCacheStore } from '../../src/cache/memory-cache-store.js';
+import { hashParticipantId, hashParticipantIdMD5 } from '../../src/sml/participant-hash.js';
+
+interface MockSMPResponse {
+  statusCode: number;
+  body: string;
+}
+
+type MockSMPHandler =
+  | MockSMPResponse
+  | ((url: string, signal?: AbortSignal) => Promise<MockSMPResponse>);
+
+const SERVICE_GROUP_URL = 'http://smp-test.example.com/iso6523-actorid-upis::0208:0843766574';
+
+// Per-test SMP responses by URL, served before the default responses; reset before each test
+const { smpResponses, smpRequests } = vi.hoisted(() => ({
+  smpResponses: new Map<string, MockSMPHandler>(),
+  smpRequests: [] as string[]
+}));
+
+/**
+ * Serves the given responses instead of the default SMP responses for the rest of the test
+ */
+function mockSMPResponses(responses: Record<string, MockSMPHandler>): void {
+  for (const [url, response] of Object.entries(responses)) {
+    smpResponses.set(url, response);
+  }
+}
+
+/**
+ * Response mocked for the URL by mockSMPResponses(), undefined when there is none
+ */
+function getMockedResponse(url: string, signal?: AbortSignal) {
+  const override = smpResponses.get(url);
+  if (!override) {
+    return undefined;
+  }
+  const response =
+    typeof override === 'function' ? override(url, signal) : Promise.resolve(override);
+  return response.then(({ statusCode, body }) => ({
+    statusCode,
+    body,
+    finalUrl: url,
+    redirectCount: 0
+  }));
+}
 
 // Mock DNS and HTTP for predictable tests
 vi.mock('../../src/dns/naptr-resolver', () => ({
   NAPTRResolver: vi.fn().mockImplementation(() => ({
-    lookupSMP: vi.fn().mockImplementation((hash, _domain) => {
+    locateSMP: vi.fn().mockImplementation((participantId: string, smlDomain: string) => {
       // Mock known test cases - using the actual hash from our implementation
-      if (hash === 'cmorzb6cpx7e4wldnu4zxrmczeqaiacq4qds2x7zi5ki4nsxxfma') {
-        return Promise.resolve('http://smp-test.example.com');
+      if (participantId === '0208:0843766574') {
+        return Promise.resolve({
+          smpUrl: 'http://smp-test.example.com',
+          mechanism: 'naptr',
+          domain: `cmorzb6cpx7e4wldnu4zxrmczeqaiacq4qds2x7zi5ki4nsxxfma.iso6523-actorid-upis.${smlDomain}`
+        });
       }
       return Promise.resolve(null);
     })
@@ -16,15 +73,31 @@ vi.mock('../../src/dns/naptr-resolver', () => ({
 
 vi.mock('../../src/http/http-client', () => ({
   HTTPClient: vi.fn().mockImplementation(() => ({
-    close: vi.fn().mockResolvedValue(undefined)
+    // Business cards are only served when mocked by a test
+    getWithTimeout: vi
+      .fn()
+      .mockImplementation(
+        (url: string, _timeoutMs: number, _headers: unknown, signal?: AbortSignal) =>
+          getMockedResponse(url, signal) ??
+          Promise.resolve({ statusCode: 404, body: '', finalUrl: url, redirectCount: 0 })
+      ),
+    close: vi.fn().mockResolvedValue(undefined),
+    getCircuitBreakerStats: vi.fn().mockReturnValue({})
   }))
 }));
 
 vi.mock('../../src/http/redirect-handler', () => ({
   RedirectHandler: vi.fn().mockImplementation(() => ({
-    followRedirects: vi.fn().mockImplementation((url: string) => {
+    followRedirects: vi.fn().mockImplementation((url: string, signal?: AbortSignal) => {
+      smpRequests.push(url);
+
+      const mocked = getMockedResponse(url, signal);
+      if (mocked) {
+        return mocked;
+      }
+
       // Mock ServiceGroup response
-      if (url.includes('/iso6523-actorid-upis::')) {
+      if (url.includes('/iso6523-actorid-upis::') && !url.includes('/services/')) {
         return Promise.resolve({
           statusCode: 200,
           body: `<?xml version="1.0" encoding="UTF-8"?>
@@ -39,8 +112,28 @@ vi.mock('../../src/http/redirect-handler', () => ({
         });
       }
 
-      // Mock ServiceMetadata response
-      if (url.includes('/services/')) {
+      // Mock SMP-level redirects: creditnote is delegated to another SMP, loop redirects forever
+      if (url.includes('/services/') && (url.includes('creditnote') || url.includes('loop'))) {
+        const target = url.includes('loop')
+          ? 'https://smp-loop.example.com/iso6523-actorid-upis::0208:0843766574/services/busdox-docid-qns::loop'
+          : 'https://smp2.example.com/iso6523-actorid-upis::0208:0843766574/services/busdox-docid-qns::invoice';
+        return Promise.resolve({
+          statusCode: 200,
+          body: `<?xml version="1.0" encoding="UTF-8"?>
+<SignedServiceMetadata xmlns="http://busdox.org/serviceMetadata/publishing/1.0/">
+  <ServiceMetadata>
+    <Redirect href="${target}">
+      <CertificateUID>PID:9208-2001-3-279815395</CertificateUID>
+    </Redirect>
+  </ServiceMetadata>
+</SignedServiceMetadata>`,
+          finalUrl: url,
+          redirectCount: 0
+        });
+      }
+
+      // Mock ServiceMetadata response (only the invoice document type is registered)
+      if (url.includes('/services/') && url.includes('invoice')) {
         return Promise.resolve({
           statusCode: 200,
           body: `<?xml version="1.0" encoding="UTF-8"?>
@@ -102,6 +195,11 @@ describe('SMPResolver Integration Tests', () => {
     });
   });
 
+  beforeEach(() => {
+    smpResponses.clear();
+    smpRequests.length = 0;
+  });
+
   afterAll(async () => {
     await resolver.close();
   });
@@ -112,6 +210,7 @@ describe('SMPResolver Integration Tests', () => {
 
       expect(result.isRegistered).toBe(true);
       expect(result.participantId).toBe('0208:0843766574');
+      expect(result.lookupMechanism).toBe('naptr');
       // Note: smpHostname is only included when fetchDocumentTypes or includeBusinessCard is true
     });
 
@@ -120,6 +219,7 @@ describe('SMPResolver Integration Tests', () => {
 
       expect(result.isRegistered).toBe(false);
       expect(result.error).toContain('No SMP found');
+      expect(result.errorCode).toBe('DNS_NXDOMAIN');
     });
 
     it('should validate participant ID format', async () => {
@@ -127,6 +227,31 @@ describe('SMPResolver Integration Tests', () => {
 
       expect(result.isRegistered).toBe(false);
       expect(result.error).toContain('Invalid participant ID format');
+      expect(result.errorCode).toBe('INVALID_PARTICIPANT_ID');
+    });
+
+    it('should report a per-phase timing breakdown when requested', async () => {
+      const timedResolver = new SMPResolver({ smlDomain: 'test.example.com' });
+
+      const result = await timedResolver.resolve('0208:0843766574', {
+        fetchDocumentTypes: true,
+        includeTimings: true
+      });
+      const untimed = await timedResolver.resolve('0208:0843766574', { fetchDocumentTypes: true });
+
+      expect(Object.keys(result.timings ?? {})).toEqual([
+        'dns',
+        'serviceGroup',
+        'serviceMetadata',
+        'businessCard',
+        'certificate',
+        'total',
+        'httpCalls'
+      ]);
+      expect(result.timings?.total).toBeGreaterThanOrEqual(result.timings?.serviceGroup ?? 0);
+      expect(untimed.timings).toBeUndefined();
+
+      await timedResolver.close();
     });
 
     it('should fetch document types when requested', async () => {
@@ -140,6 +265,719 @@ describe('SMPResolver Integration Tests', () => {
     });
   });
 
+  describe('timeouts and cancellation', () => {
+    const BUSINESS_CARD_URL =
+      'https://smp-test.example.com/businesscard/iso6523-actorid-upis::0208:0843766574';
+
+    // Server that never answers, only an abort ends the request
+    const hang = (_url: string, signal?: AbortSignal) =>
+      new Promise<MockSMPResponse>((_, reject) => {
+        if (signal?.aborted) {
+          reject(signal.reason);
+        }
+        signal?.addEventListener('abort', () => reject(signal.reason), { once: true });
+      });
+
+    function createHangingResolver() {
+      mockSMPResponses({ [SERVICE_GROUP_URL]: hang });
+      return new SMPResolver({ smlDomain: 'test.example.com', cache: false });
+    }
+
+    it('should bound resolve() by options.timeout', async () => {
+      const hangingResolver = createHangingResolver();
+
+      const start = Date.now();
+      const result = await hangingResolver.resolve('0208:0843766574', { timeout: 50 });
+
+      expect(Date.now() - start).toBeLessThan(1000);
+      expect(result.error).toContain('aborted due to timeout');
+      expect(result.errorCode).toBe('TIMEOUT');
+      await hangingResolver.close();
+    });
+
+    it('should cancel resolve() through options.signal', async () => {
+      const hangingResolver = createHangingResolver();
+      const controller = new AbortController();
+
+      const pending = hangingResolver.resolve('0208:0843766574', { signal: controller.signal });
+      controller.abort(new Error('Client disconnected'));
+
+      const result = await pending;
+      expect(result.error).toBe('Client disconnected');
+      expect(result.errorCode).toBe('ABORTED');
+      await hangingResolver.close();
+    });
+
+    it('should cancel resolveCapabilities() through options.signal', async () => {
+      const hangingResolver = createHangingResolver();
+
+      await expect(
+        hangingResolver.resolveCapabilities('0208:0843766574', {
+          signal: AbortSignal.abort(new Error('Cancelled'))
+        })
+      ).rejects.toThrow('Cancelled');
+      await hangingResolver.close();
+    });
+
+    it('should report a deadline hit in the business card phase and not cache it', async () => {
+      const cachedResolver = new SMPResolver({ smlDomain: 'test.example.com' });
+      mockSMPResponses({ [BUSINESS_CARD_URL]: hang });
+
+      const first = await cachedResolver.resolve('0208:0843766574', {
+        includeBusinessCard: true,
+        timeout: 50
+      });
+      mockSMPResponses({
+        [BUSINESS_CARD_URL]: {
+          statusCode: 200,
+          body: `<?xml version="1.0" encoding="UTF-8"?>
+<BusinessCard xmlns="http://docs.oasis-open.org/bdxr/ns/SMP/2016/05">
+  <ParticipantIdentifier scheme="iso6523-actorid-upis">0208:0843766574</ParticipantIdentifier>
+  <BusinessEntity>
+    <Name>Test Company</Name>
+    <CountryCode>BE</CountryCode>
+  </BusinessEntity>
+</BusinessCard>`
+        }
+      });
+      const second = await cachedResolver.resolve('0208:0843766574', {
+        includeBusinessCard: true
+      });
+
+      expect(first.registrationStatus).toBe('active');
+      expect(first.errorCode).toBe('TIMEOUT');
+      expect(first.error).toContain('aborted due to timeout');
+      expect(first.businessEntity).toBeUndefined();
+      expect(second.error).toBeUndefined();
+      expect(second.businessEntity?.name).toBe('Test Company');
+      await cachedResolver.close();
+    });
+  });
+
+  describe('resolveMany', () => {
+    it('should return results in input order with per-item errors', async () => {
+      const results = await resolver.resolveMany([
+        '0208:0843766574',
+        '0208:9999999999',
+        'invalid-format'
+      ]);
+
+      expect(results.map(item => item.participantId)).toEqual([
+        '0208:0843766574',
+        '0208:9999999999',
+        'invalid-format'
+      ]);
+      expect(results[0].result?.registrationStatus).toBe('active');
+      expect(results[0].error).toBeUndefined();
+      expect(results[1].error).toBe('No SMP found via DNS lookup');
+      expect(results[2].error).toContain('Invalid participant ID format');
+    });
+
+    it('should report identifier objects in their URI form', async () => {
+      const results = await resolver.resolveMany([
+        { scheme: 'iso6523-actorid-upis', value: '0208:0843766574' },
+        { scheme: '', value: '0208:0843766574' }
+      ]);
+
+      expect(results.map(item => item.participantId)).toEqual([
+        'iso6523-actorid-upis::0208:0843766574',
+        '::0208:0843766574'
+      ]);
+      expect(results[0].result?.participantId).toBe('0208:0843766574');
+      expect(results[0].result?.registrationStatus).toBe('active');
+      expect(results[1].errorCode).toBe('INVALID_PARTICIPANT_ID');
+    });
+
+    it('should never exceed the configured concurrency', async () => {
+      const batchResolver = new SMPResolver({ smlDomain: 'test.example.com' });
+      let inFlight = 0;
+      let maxInFlight = 0;
+      vi.spyOn(batchResolver, 'resolve').mockImplementation(async participantId => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return {
+          participantId,
+          isRegistered: true,
+          registrationStatus: 'active',
+          hasActiveEndpoints: true
+        };
+      });
+
+      const progress: number[] = [];
+      const ids = Array.from({ length: 10 }, (_, i) => `0208:000000000${i}`);
+      const results = await batchResolver.resolveMany(ids, {
+        concurrency: 3,
+        onProgress: completed => progress.push(completed)
+      });
+
+      expect(maxInFlight).toBe(3);
+      expect(results.map(item => item.participantId)).toEqual(ids);
+      expect(progress).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+
+      await batchResolver.close();
+    });
+
+    it('should report unexpected failures per item', async () => {
+      const batchResolver = new SMPResolver({ smlDomain: 'test.example.com' });
+      vi.spyOn(batchResolver, 'resolve').mockRejectedValueOnce(new Error('boom'));
+
+      const results = await batchResolver.resolveMany(['0208:0843766574']);
+
+      expect(results[0].result).toBeUndefined();
+      expect(results[0].error).toBe('boom');
+
+      await batchResolver.close();
+    });
+
+    it('should reject an invalid concurrency', async () => {
+      await expect(resolver.resolveMany(['0208:0843766574'], { concurrency: 0 })).rejects.toThrow(
+        'Invalid concurrency'
+      );
+    });
+  });
+
+  describe('resolveStream', () => {
+    function mockDelayedResolve(streamResolver: SMPResolver, delays: Record<string, number>) {
+      vi.spyOn(streamResolver, 'resolve').mockImplementation(async participantId => {
+        await new Promise(resolve => setTimeout(resolve, delays[participantId] ?? 0));
+        return {
+          participantId,
+          isRegistered: true,
+          registrationStatus: 'active',
+          hasActiveEndpoints: true
+        };
+      });
+    }
+
+    async function collect(source: AsyncIterable<{ participantId: string }>): Promise<string[]> {
+      const ids: string[] = [];
+      for await (const info of source) {
+        ids.push(info.participantId);
+      }
+      return ids;
+    }
+
+    it('should yield results in source order by default', async () => {
+      const streamResolver = new SMPResolver({ smlDomain: 'test.example.com' });
+      mockDelayedResolve(streamResolver, { '0208:1': 30, '0208:2': 0, '0208:3': 10 });
+
+      const ids = await collect(
+        streamResolver.resolveStream(['0208:1', '0208:2', '0208:3'], { concurrency: 3 })
+      );
+
+      expect(ids).toEqual(['0208:1', '0208:2', '0208:3']);
+      await streamResolver.close();
+    });
+
+    it('should yield results as they complete when unordered', async () => {
+      const streamResolver = new SMPResolver({ smlDomain: 'test.example.com' });
+      mockDelayedResolve(streamResolver, { '0208:1': 30, '0208:2': 0, '0208:3': 10 });
+
+      const ids = await collect(
+        streamResolver.resolveStream(['0208:1', '0208:2', '0208:3'], {
+          concurrency: 3,
+          ordered: false
+        })
+      );
+
+      expect(ids).toEqual(['0208:2', '0208:3', '0208:1']);
+      await streamResolver.close();
+    });
+
+    it('should only pull from the source as the consumer reads', async () => {
+      const streamResolver = new SMPResolver({ smlDomain: 'test.example.com' });
+      mockDelayedResolve(streamResolver, {});
+
+      let pulled = 0;
+      let released = false;
+      async function* source() {
+        try {
+          for (let i = 0; i < 1000; i++) {
+            pulled++;
+            yield `0208:${i}`;
+          }
+        } finally {
+          released = true;
+        }
+      }
+
+      const stream = streamResolver.resolveStream(source(), { concurrency: 2 });
+      const first = await stream.next();
+
+      expect(first.value?.participantId).toBe('0208:0');
+      expect(pulled).toBe(2);
+
+      await stream.return(undefined);
+      expect(released).toBe(true);
+      await streamResolver.close();
+    });
+
+    it('should report identifier objects of unexpected failures in their URI form', async () => {
+      const streamResolver = new SMPResolver({ smlDomain: 'test.example.com' });
+      vi.spyOn(streamResolver, 'resolve').mockRejectedValueOnce(new Error('boom'));
+
+      const results = [];
+      for await (const info of streamResolver.resolveStream([
+        { scheme: 'iso6523-actorid-upis', value: '0208:0843766574' }
+      ])) {
+        results.push(info);
+      }
+
+      expect(results[0].participantId).toBe('iso6523-actorid-upis::0208:0843766574');
+      expect(results[0].error).toBe('boom');
+      await streamResolver.close();
+    });
+
+    it('should resolve real participants with per-item errors', async () => {
+      const results = [];
+      for await (const info of resolver.resolveStream(['0208:0843766574', '0208:9999999999'])) {
+        results.push(info);
+      }
+
+      expect(results[0].registrationStatus).toBe('active');
+      expect(results[1].error).toBe('No SMP found via DNS lookup');
+    });
+  });
+
+  describe('caching', () => {
+    it('should serve repeated resolutions from the cache', async () => {
+      const cachedResolver = new SMPResolver({ smlDomain: 'test.example.com' });
+
+      await cachedResolver.resolve('0208:0843766574', { fetchDocumentTypes: true });
+      const callsAfterFirst = smpRequests.length;
+      const second = await cachedResolver.resolve('0208:0843766574', { fetchDocumentTypes: true });
+
+      expect(second.registrationStatus).toBe('active');
+      expect(smpRequests.length).toBe(callsAfterFirst);
+      expect(cachedResolver.getCacheStats().hits).toBeGreaterThan(0);
+
+      await cachedResolver.close();
+    });
+
+    it('should not cache results of failed SMP requests', async () => {
+      const cachedResolver = new SMPResolver({ smlDomain: 'test.example.com' });
+
+      // The ServiceMetadata request fails once, then the SMP is healthy again
+      mockSMPResponses({
+        [`${SERVICE_GROUP_URL}/services/busdox-docid-qns%3A%3Ainvoice`]: url => {
+          smpResponses.delete(url);
+          return Promise.resolve({ statusCode: 500, body: '' });
+        }
+      });
+
+      const first = await cachedResolver.resolve('0208:0843766574');
+      const second = await cachedResolver.resolve('0208:0843766574');
+
+      expect(first.registrationStatus).toBe('parked');
+      expect(first.diagnostics?.smpErrors?.[0].statusCode).toBe(500);
+      expect(second.registrationStatus).toBe('active');
+
+      await cachedResolver.close();
+    });
+
+    it('should keep the answers of lookup strategies apart in a shared store', async () => {
+      const store = new MemoryCacheStore();
+      const naptrOnly = new SMPResolver({ smlDomain: 'test.example.com', cache: store });
+      vi.mocked(NAPTRResolver).mock.results.at(-1)?.value.locateSMP.mockResolvedValueOnce(null);
+      const withFallback = new SMPResolver({
+        smlDomain: 'test.example.com',
+        cache: store,
+        lookupStrategy: 'naptr-then-cname'
+      });
+
+      expect((await naptrOnly.resolve('0208:0843766574')).isRegistered).toBe(false);
+      expect((await withFallback.resolve('0208:0843766574')).isRegistered).toBe(true);
+      expect((await withFallback.lookupSMP('0208:0843766574')).smpUrl).toBe(
+        'http://smp-test.example.com'
+      );
+
+      await naptrOnly.close();
+      await withFallback.close();
+    });
+
+    it('should bypass the cache when cacheTTL is 0', async () => {
+      const uncachedResolver = new SMPResolver({ smlDomain: 'test.example.com', cacheTTL: 0 });
+
+      await uncachedResolver.resolve('0208:0843766574', { fetchDocumentTypes: true });
+      const callsAfterFirst = smpRequests.length;
+      await uncachedResolver.resolve('0208:0843766574', { fetchDocumentTypes: true });
+
+      expect(smpRequests.length).toBe(callsAfterFirst * 2);
+      expect(uncachedResolver.getCacheStats().enabled).toBe(false);
+
+      await uncachedResolver.close();
+    });
+  });
+
+  describe('identifier normalization', () => {
+    it('should resolve participant IDs in their normalized form', async () => {
+      const result = await resolver.resolve(' 0208:0843766574 ');
+
+      expect(result.isRegistered).toBe(true);
+      expect(result.participantId).toBe('0208:0843766574');
+      expect(result.normalizedFrom).toBe(' 0208:0843766574 ');
+    });
+
+    it('should lowercase participant IDs before the SML lookup', async () => {
+      const naptrResolver = vi.mocked(NAPTRResolver).mock.results.at(0)?.value;
+
+      const lookup = await resolver.lookupSMP('9925:BE0843766574');
+
+      expect(lookup.participantId).toBe('9925:be0843766574');
+      expect(lookup.normalizedFrom).toBe('9925:BE0843766574');
+      expect(naptrResolver.locateSMP).toHaveBeenLastCalledWith(
+        '9925:be0843766574',
+        'test.example.com',
+        undefined
+      );
+    });
+
+    it('should keep participant IDs as given when normalization is disabled', async () => {
+      const verbatimResolver = new SMPResolver({
+        smlDomain: 'test.example.com',
+        normalizeIdentifiers: false
+      });
+
+      const result = await verbatimResolver.resolve(' 0208:0843766574 ');
+
+      expect(result.isRegistered).toBe(false);
+      expect(result.participantId).toBe(' 0208:0843766574 ');
+      expect(result.normalizedFrom).toBeUndefined();
+
+      await verbatimResolver.close();
+    });
+  });
+
+  describe('participant identifier notations', () => {
+    it('should resolve URI, percent-encoded, ParticipantId and plain object inputs', async () => {
+      for (const participantId of [
+        'iso6523-actorid-upis::0208:0843766574',
+        'iso6523-actorid-upis%3A%3A0208%3A0843766574',
+        ParticipantId.parse('0208:0843766574'),
+        { scheme: 'iso6523-actorid-upis', value: '0208:0843766574' }
+      ]) {
+        const result = await resolver.resolve(participantId);
+
+        expect(result.isRegistered).toBe(true);
+        expect(result.participantId).toBe('0208:0843766574');
+      }
+    });
+
+    it('should not report normalizedFrom for a ParticipantId in canonical form', async () => {
+      const result = await resolver.resolve(
+        new ParticipantId('iso6523-actorid-upis', '0208:0843766574')
+      );
+
+      expect(result.normalizedFrom).toBeUndefined();
+    });
+
+    it('should keep colons in participant ID values', async () => {
+      const lookup = await resolver.lookupSMP('iso6523-actorid-upis::0204:991-12345:67');
+
+      expect(lookup.participantId).toBe('0204:991-12345:67');
+      expect(lookup.hash).toBe(hashParticipantId('991-12345:67', '0204'));
+    });
+
+    it('should report the B-{md5} label as hash of CNAME lookups', async () => {
+      const cnameResolver = new SMPResolver({
+        smlDomain: 'test.example.com',
+        lookupStrategy: 'cname'
+      });
+      const naptrResolver = vi.mocked(NAPTRResolver).mock.results.at(-1)?.value;
+      const label = hashParticipantIdMD5('0843766574', '0208');
+      naptrResolver.locateSMP.mockResolvedValueOnce({
+        smpUrl: 'http://smp-test.example.com',
+        mechanism: 'cname',
+        domain: `${label}.iso6523-actorid-upis.test.example.com`
+      });
+
+      const found = await cnameResolver.lookupSMP('0208:0843766574');
+      const missing = await cnameResolver.lookupSMP('0208:9999999999');
+
+      expect(found.mechanism).toBe('cname');
+      expect(found.hash).toBe(label);
+      expect(missing.mechanism).toBeNull();
+      expect(missing.hash).toBe(hashParticipantIdMD5('9999999999', '0208'));
+      await cnameResolver.close();
+    });
+
+    it('should reject participant identifier schemes other than iso6523-actorid-upis', async () => {
+      const result = await resolver.resolve('private-actorid::0208:0843766574');
+
+      expect(result.errorCode).toBe('INVALID_PARTICIPANT_ID');
+      expect(result.error).toContain('Unsupported participant identifier scheme');
+    });
+  });
+
+  describe('identifier validation', () => {
+    it('should reject invalid participant IDs before the SML lookup', async () => {
+      const validatingResolver = new SMPResolver({
+        smlDomain: 'test.example.com',
+        validateIdentifiers: true
+      });
+      const naptrResolver = vi.mocked(NAPTRResolver).mock.results.at(-1)?.value;
+
+      const result = await validatingResolver.resolve('0208:0843766575');
+
+      expect(result.isRegistered).toBe(false);
+      expect(result.errorCode).toBe('INVALID_PARTICIPANT_ID');
+      expect(result.error).toContain('check digit');
+      expect(naptrResolver.locateSMP).not.toHaveBeenCalled();
+      await expect(validatingResolver.lookupSMP('9925:0843766574')).rejects.toMatchObject({
+        code: 'INVALID_PARTICIPANT_ID',
+        issue: { reason: 'invalid-country-prefix' }
+      });
+
+      expect((await validatingResolver.resolve('0208:0843766574')).isRegistered).toBe(true);
+
+      await validatingResolver.close();
+    });
+
+    it('should not answer from a shared cache for participant IDs it rejects', async () => {
+      const store = new MemoryCacheStore();
+      const lenient = new SMPResolver({ smlDomain: 'test.example.com', cache: store });
+      const validating = new SMPResolver({
+        smlDomain: 'test.example.com',
+        cache: store,
+        validateIdentifiers: true
+      });
+
+      expect((await lenient.resolve('0208:0843766575')).errorCode).toBe('DNS_NXDOMAIN');
+      expect((await validating.resolve('0208:0843766575')).errorCode).toBe(
+        'INVALID_PARTICIPANT_ID'
+      );
+
+      await lenient.close();
+      await validating.close();
+    });
+
+    it('should not validate participant IDs by default', async () => {
+      const result = await resolver.lookupSMP('0208:0843766575');
+
+      expect(result.smpUrl).toBeNull();
+    });
+  });
+
+  describe('identifier schemes', () => {
+    it('should report the scheme of the participant ID', async () => {
+      const result = await resolver.resolve('0208:0843766574');
+
+      expect(result.schemeInfo).toMatchObject({ icd: '0208', schemeId: 'BE:EN', state: 'active' });
+      expect(result.diagnostics?.warnings ?? []).toEqual([]);
+    });
+
+    it('should warn when a deprecated scheme is used', async () => {
+      const result = await resolver.resolve('9956:0843766574');
+
+      expect(result.schemeInfo?.state).toBe('deprecated');
+      expect(result.diagnostics?.warnings).toEqual([
+        'Participant identifier scheme 9956 (BE:CBE) is deprecated'
+      ]);
+    });
+  });
+
+  describe('document type warnings', () => {
+    const BIS4A_INVOICE =
+      'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2::Invoice##urn:www.cenbii.eu:transaction:biitrns010:ver2.0:extended:urn:www.peppol.eu:bis:peppol4a:ver2.0::2.1';
+
+    // Receiver still advertising the BIS 4A invoice instead of BIS Billing 3.0
+    function createOutdatedResolver() {
+      mockSMPResponses({
+        [SERVICE_GROUP_URL]: {
+          statusCode: 200,
+          body: `<?xml version="1.0" encoding="UTF-8"?>
+<ServiceGroup xmlns="http://busdox.org/serviceMetadata/publishing/1.0/">
+  <ParticipantIdentifier scheme="iso6523-actorid-upis">0208:0843766574</ParticipantIdentifier>
+  <ServiceMetadataReferenceCollection>
+    <ServiceMetadataReference href="${SERVICE_GROUP_URL}/services/${encodeURIComponent(`busdox-docid-qns::${BIS4A_INVOICE}`)}"/>
+  </ServiceMetadataReferenceCollection>
+</ServiceGroup>`
+        }
+      });
+      return new SMPResolver({ smlDomain: 'test.example.com', cache: false });
+    }
+
+    it('should report outdated registrations from the code list', async () => {
+      const outdatedResolver = createOutdatedResolver();
+
+      const result = await outdatedResolver.resolve('0208:0843766574');
+      const capabilities = await outdatedResolver.resolveCapabilities('0208:0843766574');
+
+      const expected = [
+        'Document type "PEPPOL Invoice profile V2" is deprecated since code list release 7',
+        'Only deprecated or removed Invoice (POAC) document types are registered'
+      ];
+      expect(result.diagnostics?.warnings).toEqual(expected);
+      expect(capabilities.documentTypes[0].codeListInfo?.state).toBe('deprecated');
+      expect(capabilities.diagnostics?.warnings).toEqual(expected);
+      await outdatedResolver.close();
+    });
+  });
+
+  describe('networks', () => {
+    it('should look up participants in the SML of the selected network', async () => {
+      const testResolver = new SMPResolver({ network: 'peppol-test' });
+      const naptrResolver = vi.mocked(NAPTRResolver).mock.results.at(-1)?.value;
+
+      await testResolver.lookupSMP('0208:0843766574');
+
+      expect(testResolver.getNetwork().name).toBe('peppol-test');
+      expect(naptrResolver.locateSMP).toHaveBeenCalledWith(
+        '0208:0843766574',
+        'participant.sml.test.tech.peppol.org',
+        undefined
+      );
+
+      await testResolver.close();
+    });
+
+    it('should name document types and schemes from the network code lists', async () => {
+      const codeListResolver = new SMPResolver({
+        network: {
+          smlDomain: 'test.example.com',
+          codeLists: {
+            documentTypes: {
+              version: '1.0',
+              'entry-count': 1,
+              values: [
+                {
+                  name: 'Private invoice',
+                  scheme: 'busdox-docid-qns',
+                  value: 'invoice',
+                  state: 'active'
+                }
+              ]
+            },
+            participantIdentifierSchemes: {
+              version: '1.0',
+              'entry-count': 1,
+              values: [
+                {
+                  schemeid: 'BE:EN',
+                  iso6523: '0208',
+                  country: 'BE',
+                  'scheme-name': 'Private enterprise number',
+                  'issuing-agency': 'Private registry',
+                  state: 'deprecated'
+                }
+              ]
+            }
+          }
+        }
+      });
+
+      const result = await codeListResolver.resolve('0208:0843766574', {
+        fetchDocumentTypes: true
+      });
+
+      expect(result.documentTypes).toEqual(['Private invoice']);
+      expect(result.schemeInfo?.name).toBe('Private enterprise number');
+      expect(result.diagnostics?.warnings).toContain(
+        'Participant identifier scheme 0208 (BE:EN) is deprecated'
+      );
+      await codeListResolver.close();
+    });
+
+    it('should require an SML domain for a custom network', () => {
+      expect(() => new SMPResolver({ network: 'custom' })).toThrow(
+        'A custom network requires an SML domain'
+      );
+    });
+
+    it('should warn about endpoints outside the network transport profiles', async () => {
+      const customResolver = new SMPResolver({
+        network: { smlDomain: 'test.example.com', transportProfiles: ['bdxr-transport-ebms3-as4'] }
+      });
+
+      const result = await customResolver.resolve('0208:0843766574', { fetchDocumentTypes: true });
+
+      expect(result.endpoint?.transportProfile).toBe('peppol-transport-as4-v2_0');
+      expect(result.diagnostics?.warnings).toEqual([
+        'Endpoint transport profile "peppol-transport-as4-v2_0" is not used on custom'
+      ]);
+
+      await customResolver.close();
+    });
+  });
+
+  describe('instrumentation', () => {
+    it('should report the resolution lifecycle to the hooks', async () => {
+      const onResolutionEnd = vi.fn();
+      const onXMLParse = vi.fn();
+      const instrumentedResolver = new SMPResolver({
+        smlDomain: 'test.example.com',
+        cache: false,
+        instrumentation: { onResolutionEnd, onXMLParse }
+      });
+
+      await instrumentedResolver.resolve('0208:0843766574');
+      await instrumentedResolver.resolve('0208:9999999999');
+
+      expect(onResolutionEnd).toHaveBeenCalledTimes(2);
+      expect(onResolutionEnd.mock.calls[0][0]).toMatchObject({
+        operation: 'resolve',
+        participantId: '0208:0843766574',
+        registrationStatus: 'active'
+      });
+      expect(onResolutionEnd.mock.calls[1][0].errorCode).toBe('DNS_NXDOMAIN');
+      expect(onXMLParse.mock.calls.map(([event]) => event.kind)).toEqual([
+        'service-group',
+        'service-metadata'
+      ]);
+      expect(onXMLParse.mock.calls[0][0].resolutionId).toBe(
+        onResolutionEnd.mock.calls[0][0].resolutionId
+      );
+
+      await instrumentedResolver.close();
+    });
+
+    it('should emit spans through the tracing adapter', async () => {
+      const tracer = new RecordingTracer();
+      const tracedResolver = new SMPResolver({
+        smlDomain: 'test.example.com',
+        cache: false,
+        instrumentation: createTracingInstrumentation(tracer)
+      });
+
+      await tracedResolver.resolveCapabilities('0208:0843766574');
+
+      const spans = tracer.getFinishedSpans();
+      const root = spans.find(span => span.name === 'smp.resolveCapabilities');
+      expect(root).toBeDefined();
+      expect(spans.filter(span => span.name === 'smp.xml.parse')).toHaveLength(2);
+      expect(
+        spans.filter(span => span !== root).every(span => span.parentSpanId === root?.spanId)
+      ).toBe(true);
+
+      await tracedResolver.close();
+    });
+
+    it('should export resolutions and cache state as Prometheus metrics', async () => {
+      const metrics = new PrometheusMetrics();
+      const measuredResolver = new SMPResolver({
+        smlDomain: 'test.example.com',
+        instrumentation: metrics
+      });
+      metrics.addResolver(measuredResolver);
+
+      await measuredResolver.resolve('0208:0843766574');
+      await measuredResolver.resolve('0208:0843766574');
+      await measuredResolver.resolve('0208:9999999999');
+
+      const output = metrics.render();
+      expect(output).toContain('smp_resolver_resolutions_total{status="active"} 2');
+      expect(output).toContain('smp_resolver_resolutions_total{status="unregistered"} 1');
+      expect(output).toContain(
+        'smp_resolver_errors_total{operation="resolve",code="DNS_NXDOMAIN"} 1'
+      );
+      expect(output).toMatch(/^smp_resolver_cache_hits_total [1-9]/m);
+
+      await measuredResolver.close();
+    });
+  });
+
   describe('getBusinessCard', () => {
     it.skip('should fetch business card information', async () => {
       const businessCard = await resolver.getBusinessCard('0208:0843766574');
@@ -161,6 +999,229 @@ describe('SMPResolver Integration Tests', () => {
     });
   });
 
+  describe('resolveCapabilities', () => {
+    it('should return the full document type → process → endpoint tree', async () => {
+      const capabilities = await resolver.resolveCapabilities('0208:0843766574');
+
+      expect(capabilities.smpHostname).toBe('smp-test.example.com');
+      expect(capabilities.documentTypes).toHaveLength(1);
+
+      const docType = capabilities.documentTypes[0];
+      expect(docType.documentIdentifier).toEqual({ scheme: 'busdox-docid-qns', value: 'invoice' });
+      expect(docType.processes).toHaveLength(1);
+      expect(docType.processes[0].processIdentifier.value).toBe('billing');
+      expect(docType.processes[0].endpoints[0].endpointUrl).toBe(
+        'https://as4-test.example.com/as4'
+      );
+      expect(capabilities.diagnostics).toBeUndefined();
+    });
+
+    it('should reject unregistered participants', async () => {
+      await expect(resolver.resolveCapabilities('0208:9999999999')).rejects.toThrow(
+        'No SMP found'
+      );
+    });
+  });
+
+  describe('canReceive', () => {
+    it('should return the matching endpoint for a supported capability', async () => {
+      const result = await resolver.canReceive(
+        '0208:0843766574',
+        'invoice',
+        'test::billing',
+        'peppol-transport-as4-v2_0'
+      );
+
+      expect(result.canReceive).toBe(true);
+      expect(result.reason).toBeUndefined();
+      expect(result.endpoint?.endpointUrl).toBe('https://as4-test.example.com/as4');
+    });
+
+    it('should report an unsupported document type', async () => {
+      const result = await resolver.canReceive('0208:0843766574', 'order', 'test::billing');
+
+      expect(result.canReceive).toBe(false);
+      expect(result.reason).toBe('document-type-not-supported');
+    });
+
+    it('should report an unsupported process', async () => {
+      const result = await resolver.canReceive('0208:0843766574', 'invoice', 'ordering');
+
+      expect(result.canReceive).toBe(false);
+      expect(result.reason).toBe('process-not-supported');
+    });
+
+    it('should report an unsupported transport profile', async () => {
+      const result = await resolver.canReceive(
+        '0208:0843766574',
+        'invoice',
+        'test::billing',
+        'busdox-transport-as2-ver1p0'
+      );
+
+      expect(result.canReceive).toBe(false);
+      expect(result.reason).toBe('transport-profile-not-supported');
+    });
+
+    it('should follow SMP-level redirects and record the chain', async () => {
+      const result = await resolver.canReceive('0208:0843766574', 'creditnote', 'test::billing');
+
+      expect(result.canReceive).toBe(true);
+      expect(result.diagnostics?.redirects).toHaveLength(1);
+      expect(result.diagnostics?.redirects?.[0].to).toContain('https://smp2.example.com/');
+    });
+
+    it('should check the destination SMP certificate against the CertificateUID', async () => {
+      const result = await resolver.canReceive('0208:0843766574', 'creditnote', 'test::billing');
+      const check = result.diagnostics?.redirects?.[0].certificateCheck;
+
+      // The mocked destination SMP does not sign its responses
+      expect(result.diagnostics?.redirects?.[0].certificateUID).toBe('PID:9208-2001-3-279815395');
+      expect(check?.status).toBe('unverifiable');
+      expect(check?.expectedUID).toBe('PID:9208-2001-3-279815395');
+      expect(check?.signatureStatus).toBe('missing');
+    });
+
+    it('should fail in strict redirect verification mode', async () => {
+      await expect(
+        resolver.canReceive('0208:0843766574', 'creditnote', 'test::billing', undefined, {
+          strictRedirectVerification: true
+        })
+      ).rejects.toThrow('SMP redirect certificate could not be verified');
+    });
+
+    it('should follow at most one SMP-level redirect', async () => {
+      await expect(
+        resolver.canReceive('0208:0843766574', 'loop', 'test::billing')
+      ).rejects.toThrow('Maximum SMP redirects (1) exceeded');
+    });
+
+    it('should report SMP failures with a typed error', async () => {
+      await expect(
+        resolver.canReceive('0208:0843766574', 'loop', 'test::billing')
+      ).rejects.toMatchObject({
+        code: 'REDIRECT_LIMIT',
+        context: { phase: 'service-metadata', url: expect.stringContaining('smp-loop') }
+      });
+    });
+
+    it('should report unregistered participants', async () => {
+      const result = await resolver.canReceive('0208:9999999999', 'invoice', 'test::billing');
+
+      expect(result.canReceive).toBe(false);
+      expect(result.reason).toBe('participant-not-registered');
+    });
+
+    describe('peppol-doctype-wildcard registrations', () => {
+      const PINT =
+        'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2::Invoice##urn:peppol:pint:billing-1';
+      const BILLING_PROCESS = 'cenbii-procid-ubl::urn:peppol:bis:billing';
+
+      // Receiver registered generic PINT and Japanese PINT as wildcards, Australian PINT exactly
+      function createWildcardResolver() {
+        const registrations: Record<string, string> = {
+          [`peppol-doctype-wildcard::${PINT}*::2.1`]: 'https://as4-generic.example.com/as4',
+          [`peppol-doctype-wildcard::${PINT}@jp-1*::2.1`]: 'https://as4-jp.example.com/as4',
+          [`busdox-docid-qns::${PINT}@aunz-1::2.1`]: 'https://as4-aunz.example.com/as4'
+        };
+        const references = Object.keys(registrations).map(
+          docId =>
+            `<ServiceMetadataReference href="${SERVICE_GROUP_URL}/services/${encodeURIComponent(docId)}"/>`
+        );
+        const responses: Record<string, MockSMPResponse> = {
+          [SERVICE_GROUP_URL]: {
+            statusCode: 200,
+            body: `<?xml version="1.0" encoding="UTF-8"?>
+<ServiceGroup xmlns="http://busdox.org/serviceMetadata/publishing/1.0/">
+  <ParticipantIdentifier scheme="iso6523-actorid-upis">0208:0843766574</ParticipantIdentifier>
+  <ServiceMetadataReferenceCollection>${references.join('')}</ServiceMetadataReferenceCollection>
+</ServiceGroup>`
+          }
+        };
+        for (const [docId, endpointUrl] of Object.entries(registrations)) {
+          const separator = docId.indexOf('::');
+          responses[`${SERVICE_GROUP_URL}/services/${encodeURIComponent(docId)}`] = {
+            statusCode: 200,
+            body: `<?xml version="1.0" encoding="UTF-8"?>
+<ServiceMetadata xmlns="http://busdox.org/serviceMetadata/publishing/1.0/">
+  <ServiceInformation>
+    <ParticipantIdentifier scheme="iso6523-actorid-upis">0208:0843766574</ParticipantIdentifier>
+    <DocumentIdentifier scheme="${docId.substring(0, separator)}">${docId.substring(separator + 2)}</DocumentIdentifier>
+    <ProcessList>
+      <Process>
+        <ProcessIdentifier scheme="cenbii-procid-ubl">urn:peppol:bis:billing</ProcessIdentifier>
+        <ServiceEndpointList>
+          <Endpoint transportProfile="peppol-transport-as4-v2_0">
+            <EndpointURI>${endpointUrl}</EndpointURI>
+          </Endpoint>
+        </ServiceEndpointList>
+      </Process>
+    </ProcessList>
+  </ServiceInformation>
+</ServiceMetadata>`
+          };
+        }
+
+        mockSMPResponses(responses);
+        return new SMPResolver({ smlDomain: 'test.example.com', cache: false });
+      }
+
+      it('should use the most specific wildcard covering the document type', async () => {
+        const wildcardResolver = createWildcardResolver();
+
+        const japan = await wildcardResolver.canReceive(
+          '0208:0843766574',
+          `${PINT}@jp-1::2.1`,
+          BILLING_PROCESS
+        );
+        const singapore = await wildcardResolver.canReceive(
+          '0208:0843766574',
+          `${PINT}@sg-1::2.1`,
+          BILLING_PROCESS
+        );
+
+        expect(japan.canReceive).toBe(true);
+        expect(japan.matchedDocumentType).toEqual({
+          scheme: 'peppol-doctype-wildcard',
+          value: `${PINT}@jp-1*::2.1`
+        });
+        expect(japan.endpoint?.endpointUrl).toBe('https://as4-jp.example.com/as4');
+        expect(singapore.matchedDocumentType?.value).toBe(`${PINT}*::2.1`);
+        expect(singapore.endpoint?.endpointUrl).toBe('https://as4-generic.example.com/as4');
+        await wildcardResolver.close();
+      });
+
+      it('should prefer an exact registration over wildcards', async () => {
+        const wildcardResolver = createWildcardResolver();
+
+        const result = await wildcardResolver.canReceive(
+          '0208:0843766574',
+          `busdox-docid-qns::${PINT}@aunz-1::2.1`,
+          BILLING_PROCESS
+        );
+
+        expect(result.canReceive).toBe(true);
+        expect(result.matchedDocumentType).toBeUndefined();
+        expect(result.endpoint?.endpointUrl).toBe('https://as4-aunz.example.com/as4');
+        await wildcardResolver.close();
+      });
+
+      it('should not match document types outside the wildcards', async () => {
+        const wildcardResolver = createWildcardResolver();
+
+        const result = await wildcardResolver.canReceive(
+          '0208:0843766574',
+          `${PINT.replace(/Invoice/g, 'CreditNote')}@jp-1::2.1`,
+          BILLING_PROCESS
+        );
+
+        expect(result.canReceive).toBe(false);
+        expect(result.reason).toBe('document-type-not-supported');
+        await wildcardResolver.close();
+      });
+    });
+  });
+
   describe('getEndpointUrls', () => {
     it.skip('should fetch endpoint URLs', async () => {
       const endpoints = await resolver.getEndpointUrls('0208:0843766574');
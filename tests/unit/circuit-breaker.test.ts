@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CircuitBreaker, CircuitOpenError } from '../../src/resilience/circuit-breaker.js';
+
+const ORIGIN = 'https://smp.example.com';
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 10_000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function fail(times: number) {
+    for (let i = 0; i < times; i++) {
+      breaker.assertCanRequest(ORIGIN);
+      breaker.recordFailure(ORIGIN);
+    }
+  }
+
+  it('should open after consecutive failures and fail fast', () => {
+    fail(3);
+
+    expect(() => breaker.assertCanRequest(ORIGIN)).toThrow(CircuitOpenError);
+    expect(breaker.getStats()[ORIGIN]).toMatchObject({ state: 'open', consecutiveFailures: 3 });
+  });
+
+  it('should reset the failure count on success', () => {
+    fail(2);
+    breaker.recordSuccess(ORIGIN);
+    fail(2);
+
+    expect(() => breaker.assertCanRequest(ORIGIN)).not.toThrow();
+  });
+
+  it('should only affect the failing origin', () => {
+    fail(3);
+
+    expect(() => breaker.assertCanRequest('https://other-smp.example.com')).not.toThrow();
+  });
+
+  it('should allow a single trial request after the reset timeout', () => {
+    fail(3);
+    vi.advanceTimersByTime(10_000);
+
+    expect(breaker.getStats()[ORIGIN].state).toBe('half-open');
+    expect(() => breaker.assertCanRequest(ORIGIN)).not.toThrow();
+    expect(() => breaker.assertCanRequest(ORIGIN)).toThrow(CircuitOpenError);
+
+    breaker.recordSuccess(ORIGIN);
+    expect(breaker.getStats()[ORIGIN]).toBeUndefined();
+  });
+
+  it('should re-open when the trial request fails', () => {
+    fail(3);
+    vi.advanceTimersByTime(10_000);
+    breaker.assertCanRequest(ORIGIN);
+    breaker.recordFailure(ORIGIN);
+
+    expect(breaker.getStats()[ORIGIN].state).toBe('open');
+    expect(() => breaker.assertCanRequest(ORIGIN)).toThrow(CircuitOpenError);
+  });
+
+  it('should release a cancelled trial request', () => {
+    fail(3);
+    vi.advanceTimersByTime(10_000);
+    breaker.assertCanRequest(ORIGIN);
+    breaker.recordCancellation(ORIGIN);
+
+    expect(() => breaker.assertCanRequest(ORIGIN)).not.toThrow();
+  });
+});
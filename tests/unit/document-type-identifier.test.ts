@@ -0,0 +1,253 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DocumentTypeIdentifier,
+  describeDocumentType,
+  checkDocumentTypes
+} from '../../src/identifiers/document-type-identifier.js';
+
+const UBL_INVOICE =
+  'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2::Invoice##urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0::2.1';
+const CII_INVOICE =
+  'urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100::CrossIndustryInvoice##urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0::D16B';
+
+describe('DocumentTypeIdentifier', () => {
+  it('should split UBL document type IDs into their parts', () => {
+    const docType = DocumentTypeIdentifier.parse(UBL_INVOICE);
+
+    expect(docType).toMatchObject({
+      scheme: 'busdox-docid-qns',
+      value: UBL_INVOICE,
+      rootNamespace: 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2',
+      localName: 'Invoice',
+      customizationId: 'urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0',
+      version: '2.1',
+      syntax: 'UBL',
+      bisName: 'Billing',
+      bisVersion: '3.0'
+    });
+  });
+
+  it('should recognize CII document type IDs', () => {
+    const docType = DocumentTypeIdentifier.parse(CII_INVOICE);
+
+    expect(docType.syntax).toBe('CII');
+    expect(docType.localName).toBe('CrossIndustryInvoice');
+    expect(docType.version).toBe('D16B');
+    expect(docType.bisName).toBe('Billing');
+  });
+
+  it('should accept scheme-prefixed and percent-encoded IDs', () => {
+    const prefixed = DocumentTypeIdentifier.parse(`busdox-docid-qns::${UBL_INVOICE}`);
+    const encoded = DocumentTypeIdentifier.parse(prefixed.toURLSegment());
+
+    expect(prefixed.value).toBe(UBL_INVOICE);
+    expect(encoded.toURI()).toBe(`busdox-docid-qns::${UBL_INVOICE}`);
+    expect(
+      DocumentTypeIdentifier.parse('peppol-doctype-wildcard::urn:x::Invoice##c::1').scheme
+    ).toBe('peppol-doctype-wildcard');
+  });
+
+  it('should find the Peppol BIS in chained customization IDs', () => {
+    const nlcius = DocumentTypeIdentifier.parse(
+      UBL_INVOICE.replace('::2.1', '#conformant#urn:fdc:nen.nl:nlcius:v1.0::2.1')
+    );
+    const order = DocumentTypeIdentifier.parse(
+      'urn:oasis:names:specification:ubl:schema:xsd:Order-2::Order##urn:fdc:peppol.eu:poacc:trns:order:3::2.1'
+    );
+    const bis4a = DocumentTypeIdentifier.parse(
+      'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2::Invoice##urn:www.cenbii.eu:transaction:biitrns010:ver2.0:extended:urn:www.peppol.eu:bis:peppol4a:ver2.0::2.1'
+    );
+
+    expect([nlcius.bisName, nlcius.bisVersion]).toEqual(['Billing', '3.0']);
+    expect([order.bisName, order.bisVersion]).toEqual(['Order', '3']);
+    expect([bis4a.bisName, bis4a.bisVersion]).toEqual(['4A', '2.0']);
+  });
+
+  it('should leave the parts empty for IDs in another syntax', () => {
+    const docType = DocumentTypeIdentifier.parse('invoice');
+
+    expect(docType.scheme).toBe('busdox-docid-qns');
+    expect(docType.localName).toBeUndefined();
+    expect(docType.syntax).toBeUndefined();
+    expect(docType.getFriendlyName()).toBe('invoice');
+  });
+
+  describe('friendly names', () => {
+    it('should prefer the code list name', () => {
+      expect(DocumentTypeIdentifier.parse(CII_INVOICE).getFriendlyName()).toBe(
+        'Peppol BIS Billing CII Invoice V3'
+      );
+    });
+
+    it('should build a name from the parts of unlisted document types', () => {
+      const docType = DocumentTypeIdentifier.parse(
+        UBL_INVOICE.replace('::2.1', '#conformant#urn:fdc:nen.nl:nlcius:v1.0::2.1')
+      );
+
+      expect(docType.getFriendlyName()).toBe('Invoice (BIS Billing 3.0, UBL)');
+    });
+  });
+
+  describe('wildcards', () => {
+    const PINT = 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2::Invoice##urn:peppol:pint';
+    const wildcard = (customizationId: string) =>
+      DocumentTypeIdentifier.parse(
+        `peppol-doctype-wildcard::urn:oasis:names:specification:ubl:schema:xsd:Invoice-2::Invoice##${customizationId}::2.1`
+      );
+
+    it('should cover every customization ID starting with the registered one', () => {
+      const en16931 = wildcard('urn:cen.eu:en16931:2017*');
+
+      expect(en16931.isWildcard).toBe(true);
+      expect(en16931.matches(UBL_INVOICE)).toBe(true);
+      expect(en16931.matches(`busdox-docid-qns::${UBL_INVOICE}`)).toBe(true);
+      expect(wildcard('urn:peppol:pint:billing-1*').matches(`${PINT}:billing-1@jp-1::2.1`)).toBe(
+        true
+      );
+    });
+
+    it('should match wildcards without a trailing "*" exactly', () => {
+      const pint = wildcard('urn:peppol:pint:billing-1');
+
+      expect(pint.isWildcard).toBe(true);
+      expect(pint.matches(`${PINT}:billing-1::2.1`)).toBe(true);
+      expect(pint.matches(`${PINT}:billing-1@jp-1::2.1`)).toBe(false);
+      expect(DocumentTypeIdentifier.findBestMatch(`${PINT}:billing-1@jp-1::2.1`, [pint])).toBe(
+        undefined
+      );
+    });
+
+    it('should require the same root element and syntax version', () => {
+      const en16931 = wildcard('urn:cen.eu:en16931:2017*');
+
+      expect(en16931.matches(CII_INVOICE)).toBe(false);
+      expect(en16931.matches(UBL_INVOICE.replace('::2.1', '::2.2'))).toBe(false);
+      expect(en16931.matches(UBL_INVOICE.replace(/Invoice/g, 'CreditNote'))).toBe(false);
+      expect(wildcard('urn:cen.eu:en16931:2018*').matches(UBL_INVOICE)).toBe(false);
+    });
+
+    it('should match busdox-docid-qns identifiers exactly', () => {
+      const registered = DocumentTypeIdentifier.parse(UBL_INVOICE);
+
+      expect(registered.isWildcard).toBe(false);
+      expect(registered.matches(UBL_INVOICE)).toBe(true);
+      expect(registered.matches(UBL_INVOICE.replace('3.0', '3.1'))).toBe(false);
+    });
+
+    it('should prefer an exact registration, then the most specific wildcard', () => {
+      const exact = DocumentTypeIdentifier.parse(`${PINT}:billing-1@jp-1::2.1`);
+      const generic = wildcard('urn:peppol:pint:billing-1*');
+      const japan = wildcard('urn:peppol:pint:billing-1@jp-1*');
+      const requested = `${PINT}:billing-1@jp-1::2.1`;
+
+      expect(DocumentTypeIdentifier.findBestMatch(requested, [generic, japan, exact])).toBe(exact);
+      expect(DocumentTypeIdentifier.findBestMatch(requested, [generic, japan])).toBe(japan);
+      expect(
+        DocumentTypeIdentifier.findBestMatch(`${PINT}:billing-1@sg-1::2.1`, [generic, japan])
+      ).toBe(generic);
+      expect(DocumentTypeIdentifier.findBestMatch(UBL_INVOICE, [generic, japan])).toBeUndefined();
+    });
+
+    it('should name wildcards after the code list entry', () => {
+      expect(wildcard('urn:peppol:pint:billing-1*').getFriendlyName()).toBe(
+        'Peppol PINT Invoice v1.0'
+      );
+      expect(wildcard('urn:fdc:nen.nl:nlcius:v1.0*').getFriendlyName()).toBe(
+        'Invoice (UBL, wildcard)'
+      );
+    });
+
+    it('should find the Peppol BIS of wildcard customization IDs', () => {
+      const billing = wildcard(
+        'urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0*'
+      );
+
+      expect([billing.bisName, billing.bisVersion]).toEqual(['Billing', '3.0']);
+    });
+  });
+
+  describe('describeDocumentType', () => {
+    it('should report friendly name, syntax and BIS', () => {
+      expect(describeDocumentType({ scheme: 'busdox-docid-qns', value: UBL_INVOICE })).toEqual({
+        friendlyName: 'Peppol BIS Billing UBL Invoice V3',
+        syntax: 'UBL',
+        bisName: 'Billing',
+        bisVersion: '3.0',
+        codeListInfo: expect.objectContaining({ category: 'Invoice', domainCommunity: 'POAC' })
+      });
+      expect(describeDocumentType({ scheme: 'busdox-docid-qns', value: 'invoice' })).toEqual({
+        friendlyName: 'invoice'
+      });
+    });
+  });
+
+  describe('checkDocumentTypes', () => {
+    const BIS4A_INVOICE =
+      'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2::Invoice##urn:www.cenbii.eu:transaction:biitrns010:ver2.0:extended:urn:www.peppol.eu:bis:peppol4a:ver2.0::2.1';
+    const XRECHNUNG_1_2 =
+      'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2::Invoice##urn:cen.eu:en16931:2017#compliant#urn:xoev-de:kosit:standard:xrechnung_1.2::2.1';
+    const registered = (value: string, scheme = 'busdox-docid-qns', processIds: string[] = []) => ({
+      documentIdentifier: { scheme, value },
+      ...describeDocumentType({ scheme, value }),
+      processes: processIds.map(processId => ({
+        processIdentifier: { scheme: 'cenbii-procid-ubl', value: processId },
+        endpoints: []
+      }))
+    });
+
+    it('should accept active document types', () => {
+      expect(
+        checkDocumentTypes([
+          registered(UBL_INVOICE),
+          registered(CII_INVOICE),
+          registered(
+            'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2::Invoice##urn:peppol:pint:billing-1*::2.1',
+            'peppol-doctype-wildcard'
+          )
+        ])
+      ).toEqual([]);
+    });
+
+    it('should warn about deprecated document types', () => {
+      expect(checkDocumentTypes([registered(BIS4A_INVOICE), registered(UBL_INVOICE)])).toEqual([
+        'Document type "PEPPOL Invoice profile V2" is deprecated since code list release 7'
+      ]);
+    });
+
+    it('should warn about removed document types', () => {
+      expect(checkDocumentTypes([registered(XRECHNUNG_1_2), registered(UBL_INVOICE)])).toEqual([
+        'Document type "XRechnung UBL Invoice V1.2" was removed from the code list on 2023-05-24'
+      ]);
+    });
+
+    it('should warn when only outdated document types of a category are registered', () => {
+      expect(checkDocumentTypes([registered(BIS4A_INVOICE), registered(XRECHNUNG_1_2)])).toEqual([
+        'Document type "PEPPOL Invoice profile V2" is deprecated since code list release 7',
+        'Document type "XRechnung UBL Invoice V1.2" was removed from the code list on 2023-05-24',
+        'Only deprecated or removed Invoice (POAC) document types are registered'
+      ]);
+    });
+
+    it('should warn about processes the code list does not pair with the document type', () => {
+      expect(
+        checkDocumentTypes([
+          registered(UBL_INVOICE, 'busdox-docid-qns', [
+            'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0',
+            'urn:fdc:peppol.eu:poacc:bis:ordering:3'
+          ])
+        ])
+      ).toEqual([
+        'Document type "Peppol BIS Billing UBL Invoice V3" is registered with process ' +
+          'cenbii-procid-ubl::urn:fdc:peppol.eu:poacc:bis:ordering:3, which the code list does not pair with it'
+      ]);
+    });
+
+    it('should warn about Peppol document types missing from the code list', () => {
+      const nlcius = UBL_INVOICE.replace('::2.1', '#conformant#urn:fdc:nen.nl:nlcius:v1.0::2.1');
+
+      expect(checkDocumentTypes([registered(nlcius), registered('invoice')])).toEqual([
+        `Document type busdox-docid-qns::${nlcius} is not in the Peppol code list (v9.2)`
+      ]);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { DocumentTypeLookup } from '../../src/data/document-types.js';
+
+const UBL_INVOICE =
+  'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2::Invoice##urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0::2.1';
+const MY_PINT_INVOICE =
+  'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2::Invoice##urn:peppol:pint:billing-1@my-1::2.1';
+
+describe('DocumentTypeLookup', () => {
+  const lookup = DocumentTypeLookup.getInstance();
+
+  it('should look up document types by value', () => {
+    expect(lookup.getDocumentType(UBL_INVOICE)).toMatchObject({
+      name: 'Peppol BIS Billing UBL Invoice V3',
+      scheme: 'busdox-docid-qns',
+      state: 'active',
+      category: 'Invoice',
+      domainCommunity: 'POAC',
+      bisVersion: '3',
+      initialRelease: '2'
+    });
+    expect(lookup.getDocumentType('invoice')).toBeUndefined();
+  });
+
+  it('should tell entries of the same value in different schemes apart', () => {
+    expect(lookup.getDocumentType(MY_PINT_INVOICE, 'busdox-docid-qns')).toMatchObject({
+      state: 'deprecated',
+      deprecationRelease: '2025-05-15',
+      removalDate: '2025-09-09'
+    });
+    expect(lookup.getDocumentType(MY_PINT_INVOICE, 'peppol-doctype-wildcard')?.state).toBe(
+      'active'
+    );
+    expect(lookup.getDocumentType(MY_PINT_INVOICE)?.scheme).toBe('busdox-docid-qns');
+  });
+
+  it('should list the process IDs expected with a document type', () => {
+    expect(lookup.getProcessIds(UBL_INVOICE)).toContainEqual({
+      scheme: 'cenbii-procid-ubl',
+      value: 'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0'
+    });
+    expect(lookup.getProcessIds('invoice')).toEqual([]);
+  });
+
+  it('should list document types by category, domain community and state', () => {
+    const orders = lookup.getDocumentTypes({ category: 'Order' });
+    const deprecatedPostAward = lookup.getDocumentTypes({
+      domainCommunity: 'POAC',
+      state: 'deprecated'
+    });
+
+    expect(orders.length).toBeGreaterThan(0);
+    expect(orders.every(docType => docType.category === 'Order')).toBe(true);
+    expect(deprecatedPostAward.length).toBeGreaterThan(0);
+    expect(
+      deprecatedPostAward.every(
+        docType => docType.domainCommunity === 'POAC' && docType.state === 'deprecated'
+      )
+    ).toBe(true);
+  });
+
+  it('should list the distinct categories and domain communities', () => {
+    const categories = lookup.getCategories();
+
+    expect(categories).toContain('Invoice');
+    expect(categories).toContain('Despatch Advice');
+    expect(new Set(categories).size).toBe(categories.length);
+    expect(lookup.getDomainCommunities()).toEqual(expect.arrayContaining(['POAC', 'PRAC']));
+  });
+
+  it('should keep friendly names and the code list version', () => {
+    expect(lookup.getFriendlyName(UBL_INVOICE)).toBe('Peppol BIS Billing UBL Invoice V3');
+    expect(lookup.getVersion()).toBe('9.2');
+  });
+});
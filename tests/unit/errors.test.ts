@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SMPResolverError,
+  InvalidParticipantIdError,
+  SMPHTTPError,
+  toSMPResolverError
+} from '../../src/errors/index.js';
+
+describe('SMPResolverError', () => {
+  it('should carry a stable code and context', () => {
+    const error = new SMPHTTPError(503, { phase: 'service-group', url: 'https://smp.example.com' });
+
+    expect(error).toBeInstanceOf(SMPResolverError);
+    expect(error.code).toBe('SMP_HTTP_STATUS');
+    expect(error.message).toBe('SMP returned status 503');
+    expect(error.context).toEqual({
+      phase: 'service-group',
+      url: 'https://smp.example.com',
+      statusCode: 503
+    });
+  });
+
+  it('should report the offending participant ID', () => {
+    const error = new InvalidParticipantIdError('invalid-format');
+
+    expect(error.code).toBe('INVALID_PARTICIPANT_ID');
+    expect(error.context).toEqual({ phase: 'input', participantId: 'invalid-format' });
+  });
+});
+
+describe('toSMPResolverError', () => {
+  it('should keep resolver errors as they are', () => {
+    const error = new InvalidParticipantIdError('invalid-format');
+
+    expect(toSMPResolverError(error)).toBe(error);
+  });
+
+  it('should classify aborts by the reason of the signal', () => {
+    const timedOut = AbortSignal.abort(new DOMException('Timed out', 'TimeoutError'));
+    const aborted = AbortSignal.abort(new Error('Client disconnected'));
+
+    expect(toSMPResolverError(timedOut.reason, timedOut).code).toBe('TIMEOUT');
+    expect(toSMPResolverError(aborted.reason, aborted).code).toBe('ABORTED');
+  });
+
+  it('should wrap anything else as UNKNOWN', () => {
+    const cause = new Error('boom');
+    const error = toSMPResolverError(cause);
+
+    expect(error.code).toBe('UNKNOWN');
+    expect(error.message).toBe('boom');
+    expect(error.cause).toBe(cause);
+  });
+});
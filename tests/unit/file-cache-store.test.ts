@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileCacheStore } from '../../src/cache/file-cache-store.js';
+
+describe('FileCacheStore', () => {
+  let directory: string;
+  let cachePath: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'smp-cache-'));
+    cachePath = join(directory, 'cache.jsonl');
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should share entries across store instances', async () => {
+    const writer = new FileCacheStore(cachePath);
+    await writer.set('participant:0208:0843766574', { isRegistered: true }, 60);
+    await writer.close();
+
+    const reader = new FileCacheStore(cachePath);
+    expect(await reader.get('participant:0208:0843766574')).toEqual({ isRegistered: true });
+  });
+
+  it('should restore Date values', async () => {
+    const notAfter = new Date('2027-01-01T00:00:00.000Z');
+    const writer = new FileCacheStore(cachePath);
+    await writer.set('certificate', { notAfter }, 60);
+
+    const reader = new FileCacheStore(cachePath);
+    const value = await reader.get<{ notAfter: Date }>('certificate');
+    expect(value?.notAfter).toBeInstanceOf(Date);
+    expect(value?.notAfter.getTime()).toBe(notAfter.getTime());
+  });
+
+  it('should not return expired entries', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const writer = new FileCacheStore(cachePath);
+    await writer.set('key', 'value', 60);
+
+    vi.advanceTimersByTime(61_000);
+    const reader = new FileCacheStore(cachePath);
+    expect(await reader.get('key')).toBeUndefined();
+  });
+
+  it('should persist deletions', async () => {
+    const writer = new FileCacheStore(cachePath);
+    await writer.set('key', 'value', 60);
+    await writer.delete('key');
+
+    const reader = new FileCacheStore(cachePath);
+    expect(await reader.get('key')).toBeUndefined();
+  });
+
+  it('should skip partially written lines', async () => {
+    const expiresAt = Date.now() + 60_000;
+    await writeFile(
+      cachePath,
+      `{"k":"a","v":1,"e":${expiresAt}}\n{"k":"b","v":2,"e":${expiresAt}}\n{"k":"c","v":`
+    );
+
+    const store = new FileCacheStore(cachePath);
+    expect(await store.get('a')).toBe(1);
+    expect(await store.get('b')).toBe(2);
+    expect(await store.get('c')).toBeUndefined();
+  });
+
+  it('should not corrupt entries appended after a partially written line', async () => {
+    const expiresAt = Date.now() + 60_000;
+    await writeFile(cachePath, `{"k":"a","v":1,"e":${expiresAt}}\n{"k":"b","v":`);
+
+    const writer = new FileCacheStore(cachePath);
+    await writer.set('c', 3, 60);
+
+    const reader = new FileCacheStore(cachePath);
+    expect(await reader.get('a')).toBe(1);
+    expect(await reader.get('b')).toBeUndefined();
+    expect(await reader.get('c')).toBe(3);
+  });
+
+  it('should purge stale lines on compaction', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = new FileCacheStore(cachePath);
+    await store.set('kept', 'value', 3600);
+    await store.set('overwritten', 'old', 3600);
+    await store.set('overwritten', 'new', 3600);
+    await store.set('expiring', 'value', 60);
+
+    vi.advanceTimersByTime(61_000);
+    const removed = await store.compact();
+
+    expect(removed).toBe(2);
+    const lines = (await readFile(cachePath, 'utf-8')).trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(await new FileCacheStore(cachePath).get('overwritten')).toBe('new');
+  });
+
+  it('should keep entries appended by other processes when compacting', async () => {
+    const first = new FileCacheStore(cachePath);
+    await first.set('deleted', 'value', 60);
+    await first.delete('deleted');
+    const second = new FileCacheStore(cachePath);
+    await second.set('shared', 'value', 60);
+
+    // Stale lines outnumber the live entries of the first store: close() compacts the file
+    await first.close();
+
+    expect((await readFile(cachePath, 'utf-8')).trim().split('\n')).toHaveLength(1);
+    expect(await new FileCacheStore(cachePath).get('shared')).toBe('value');
+    expect(await first.get('shared')).toBe('value');
+  });
+});
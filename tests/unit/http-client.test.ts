@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { HTTPClient, type HTTPClientOptions } from '../../src/http/http-client.js';
+import { CircuitOpenError } from '../../src/resilience/circuit-breaker.js';
+
+// Fast, deterministic backoff so that retries do not slow the tests down
+const RETRY = { baseDelayMs: 1, jitter: false };
+
+describe('HTTPClient', () => {
+  let server: Server;
+  let origin: string;
+  let requests: number;
+  let handle: (req: IncomingMessage, res: ServerResponse) => void;
+  let clients: HTTPClient[];
+
+  // Answers with the given statuses in turn, repeating the last one
+  function respondWith(...statusCodes: number[]) {
+    handle = (_req, res) => {
+      const statusCode = statusCodes[Math.min(requests, statusCodes.length) - 1];
+      res.writeHead(statusCode, { 'Content-Type': 'application/xml' });
+      res.end(`<Status>${statusCode}</Status>`);
+    };
+  }
+
+  function createClient(options: HTTPClientOptions = {}): HTTPClient {
+    const client = new HTTPClient({ timeout: 1000, retry: RETRY, ...options });
+    clients.push(client);
+    return client;
+  }
+
+  beforeEach(async () => {
+    requests = 0;
+    clients = [];
+    respondWith(200);
+    server = createServer((req, res) => {
+      requests++;
+      handle(req, res);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    for (const client of clients) {
+      await client.close();
+    }
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe('retries', () => {
+    it('should retry retryable statuses until a response succeeds', async () => {
+      const client = createClient();
+      respondWith(503, 429, 200);
+
+      const response = await client.get(`${origin}/smp`);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.body).toBe('<Status>200</Status>');
+      expect(requests).toBe(3);
+    });
+
+    it('should return the last retryable response once attempts are exhausted', async () => {
+      const client = createClient({ retry: { ...RETRY, maxAttempts: 2 } });
+      respondWith(503);
+
+      const response = await client.get(`${origin}/smp`);
+
+      expect(response.statusCode).toBe(503);
+      expect(requests).toBe(2);
+    });
+
+    it('should not retry other statuses', async () => {
+      const client = createClient();
+      respondWith(404);
+
+      expect((await client.get(`${origin}/smp`)).statusCode).toBe(404);
+      expect(requests).toBe(1);
+    });
+
+    it('should not retry timeouts by default', async () => {
+      const client = createClient({ timeout: 50, circuitBreaker: false });
+      handle = () => {}; // Never answers
+
+      await expect(client.get(`${origin}/smp`)).rejects.toMatchObject({
+        code: 'UND_ERR_HEADERS_TIMEOUT'
+      });
+      expect(requests).toBe(1);
+    });
+
+    it('should retry timeouts with retryTimeouts', async () => {
+      const client = createClient({
+        timeout: 50,
+        retry: { ...RETRY, maxAttempts: 2, retryTimeouts: true },
+        circuitBreaker: false
+      });
+      handle = () => {};
+
+      await expect(client.get(`${origin}/smp`)).rejects.toMatchObject({
+        code: 'UND_ERR_HEADERS_TIMEOUT'
+      });
+      expect(requests).toBe(2);
+    });
+
+    it('should retry network errors', async () => {
+      const client = createClient({ retry: { ...RETRY, maxAttempts: 2 } });
+      await new Promise(resolve => server.close(resolve)); // Connections are refused from now on
+
+      await expect(client.get(`${origin}/smp`)).rejects.toMatchObject({ code: 'ECONNREFUSED' });
+      expect(client.getCircuitBreakerStats()[origin].consecutiveFailures).toBe(2);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('should open the circuit of an origin after consecutive failures', async () => {
+      const client = createClient({ retry: false, circuitBreaker: { failureThreshold: 2 } });
+      respondWith(500);
+
+      await client.get(`${origin}/smp`);
+      await client.get(`${origin}/smp`);
+
+      await expect(client.get(`${origin}/smp`)).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(requests).toBe(2);
+      expect(client.getCircuitBreakerStats()[origin]).toMatchObject({
+        state: 'open',
+        consecutiveFailures: 2
+      });
+
+      // Same server under another origin has a circuit of its own
+      const otherOrigin = origin.replace('127.0.0.1', 'localhost');
+      expect((await client.get(`${otherOrigin}/smp`)).statusCode).toBe(500);
+    });
+
+    it('should close the circuit on a response below 500', async () => {
+      const client = createClient({ retry: false });
+      respondWith(500, 404);
+
+      await client.get(`${origin}/smp`);
+      expect(client.getCircuitBreakerStats()[origin].consecutiveFailures).toBe(1);
+
+      await client.get(`${origin}/smp`);
+      expect(client.getCircuitBreakerStats()).toEqual({});
+    });
+
+    it('should let a single trial request through once the reset timeout passed', async () => {
+      const client = createClient({
+        retry: false,
+        circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 20 }
+      });
+      respondWith(500);
+      await client.get(`${origin}/smp`);
+      await sleep(30);
+
+      expect(client.getCircuitBreakerStats()[origin].state).toBe('half-open');
+
+      handle = (_req, res) => setTimeout(() => res.end('<ok/>'), 20);
+      const trial = client.get(`${origin}/smp`);
+      await expect(client.get(`${origin}/smp`)).rejects.toBeInstanceOf(CircuitOpenError);
+
+      expect((await trial).statusCode).toBe(200);
+      expect(requests).toBe(2);
+      expect(client.getCircuitBreakerStats()).toEqual({});
+    });
+
+    it('should not count cancelled requests as failures', async () => {
+      const client = createClient({
+        retry: false,
+        circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 20 }
+      });
+      respondWith(500);
+      await client.get(`${origin}/smp`);
+      await sleep(30);
+
+      // The trial request is cancelled by the caller: the next request becomes the trial
+      handle = () => {};
+      const controller = new AbortController();
+      const trial = client.get(`${origin}/smp`, {}, controller.signal);
+      await sleep(10);
+      controller.abort(new Error('Cancelled'));
+      await expect(trial).rejects.toThrow('Cancelled');
+
+      expect(client.getCircuitBreakerStats()[origin]).toMatchObject({ consecutiveFailures: 1 });
+      respondWith(200);
+      expect((await client.get(`${origin}/smp`)).statusCode).toBe(200);
+      expect(client.getCircuitBreakerStats()).toEqual({});
+    });
+  });
+});
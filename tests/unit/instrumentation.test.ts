@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest';
+import { setTimeout as sleep } from 'node:timers/promises';
+import {
+  InstrumentationDispatcher,
+  type ResolverInstrumentation,
+  type XMLParseEvent
+} from '../../src/instrumentation/instrumentation.js';
+
+const PARSE_EVENT = { kind: 'service-group', bytes: 10, startTime: 0, durationMs: 1 } as const;
+
+describe('InstrumentationDispatcher', () => {
+  it('should tag events with the active resolution', async () => {
+    const events: XMLParseEvent[] = [];
+    const dispatcher = new InstrumentationDispatcher({ onXMLParse: event => events.push(event) });
+
+    // Concurrent resolutions keep their own scope across awaits
+    await Promise.all(
+      ['0208:1', '0208:2'].map(participantId =>
+        dispatcher.run('resolve', participantId, async () => {
+          await sleep(5);
+          dispatcher.onXMLParse(PARSE_EVENT);
+        })
+      )
+    );
+    dispatcher.onXMLParse(PARSE_EVENT);
+
+    expect(events.map(event => event.participantId)).toEqual(['0208:1', '0208:2', undefined]);
+    expect(events[0].resolutionId).not.toBe(events[1].resolutionId);
+  });
+
+  it('should report the start and end of a resolution once', async () => {
+    const hooks: ResolverInstrumentation = {
+      onResolutionStart: vi.fn(),
+      onResolutionEnd: vi.fn()
+    };
+    const dispatcher = new InstrumentationDispatcher(hooks);
+
+    await dispatcher.run(
+      'resolve',
+      '0208:1',
+      // Nested operations belong to the outer resolution
+      () => dispatcher.run('getBusinessCard', '0208:1', async () => 'parked' as const),
+      registrationStatus => ({ registrationStatus })
+    );
+
+    expect(hooks.onResolutionStart).toHaveBeenCalledTimes(1);
+    expect(hooks.onResolutionEnd).toHaveBeenCalledTimes(1);
+    expect(hooks.onResolutionEnd).toHaveBeenCalledWith(
+      expect.objectContaining({ operation: 'resolve', registrationStatus: 'parked' })
+    );
+  });
+
+  it('should report failed resolutions with their error code', async () => {
+    const onResolutionEnd = vi.fn();
+    const dispatcher = new InstrumentationDispatcher({ onResolutionEnd });
+    const error = Object.assign(new Error('No SMP found via DNS lookup'), { code: 'DNS_NXDOMAIN' });
+
+    await expect(
+      dispatcher.run('resolveCapabilities', '0208:1', () => Promise.reject(error))
+    ).rejects.toBe(error);
+    expect(onResolutionEnd).toHaveBeenCalledWith(
+      expect.objectContaining({ errorCode: 'DNS_NXDOMAIN', error })
+    );
+  });
+
+  it('should count the HTTP requests of the active resolution', async () => {
+    const dispatcher = new InstrumentationDispatcher();
+    const request = { url: 'https://smp.example.com', attempt: 1, startTime: 0, durationMs: 1 };
+
+    const count = await dispatcher.run('resolve', '0208:1', async () => {
+      dispatcher.onHTTPRequest(request);
+      dispatcher.onHTTPRequest({ ...request, attempt: 2 });
+      return dispatcher.getHTTPCallCount();
+    });
+
+    expect(count).toBe(2);
+    expect(dispatcher.getHTTPCallCount()).toBe(0);
+  });
+
+  it('should ignore exceptions thrown by hooks', () => {
+    const onXMLParse = vi.fn();
+    const dispatcher = new InstrumentationDispatcher([
+      {
+        onXMLParse: () => {
+          throw new Error('broken hook');
+        }
+      },
+      { onXMLParse }
+    ]);
+
+    expect(() => dispatcher.onXMLParse(PARSE_EVENT)).not.toThrow();
+    expect(onXMLParse).toHaveBeenCalledTimes(1);
+  });
+});
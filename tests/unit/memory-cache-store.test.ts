@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MemoryCacheStore } from '../../src/cache/memory-cache-store.js';
+import { ResolutionCache } from '../../src/cache/resolution-cache.js';
+
+describe('MemoryCacheStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should return stored values until they expire', async () => {
+    const store = new MemoryCacheStore();
+    await store.set('key', { smpUrl: 'https://smp.example.com' }, 60);
+
+    expect(await store.get('key')).toEqual({ smpUrl: 'https://smp.example.com' });
+
+    vi.advanceTimersByTime(61_000);
+    expect(await store.get('key')).toBeUndefined();
+  });
+
+  it('should evict the least recently used entry', async () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    await store.set('a', 1, 60);
+    await store.set('b', 2, 60);
+
+    // Touch "a" so that "b" becomes the least recently used entry
+    await store.get('a');
+    await store.set('c', 3, 60);
+
+    expect(store.size).toBe(2);
+    expect(await store.get('a')).toBe(1);
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBe(3);
+  });
+
+  it('should not store entries with a zero TTL', async () => {
+    const store = new MemoryCacheStore();
+    await store.set('key', 'value', 0);
+
+    expect(await store.get('key')).toBeUndefined();
+  });
+});
+
+describe('ResolutionCache', () => {
+  it('should cache negative SML answers', async () => {
+    const cache = new ResolutionCache(new MemoryCacheStore(), { ttl: 3600, negativeTtl: 300 });
+
+    expect(
+      await cache.getSMPLocation('sml.example.com', 'naptr', '0208:0843766574')
+    ).toBeUndefined();
+    await cache.setSMPLocation('sml.example.com', 'naptr', '0208:0843766574', null);
+    expect(await cache.getSMPLocation('sml.example.com', 'naptr', '0208:0843766574')).toBeNull();
+    expect(cache.getStats()).toEqual({ hits: 1, misses: 1 });
+  });
+
+  it('should only cache 200 and 404 responses', async () => {
+    const cache = new ResolutionCache(new MemoryCacheStore(), { ttl: 3600, negativeTtl: 300 });
+    const url = 'https://smp.example.com/iso6523-actorid-upis::0208:0843766574';
+
+    await cache.setResponse('servicegroup', url, { finalUrl: url, statusCode: 500, body: '' });
+    expect(await cache.getResponse('servicegroup', url)).toBeUndefined();
+
+    await cache.setResponse('servicegroup', url, { finalUrl: url, statusCode: 404, body: '' });
+    expect((await cache.getResponse('servicegroup', url))?.statusCode).toBe(404);
+  });
+});
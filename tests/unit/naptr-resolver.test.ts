@@ -0,0 +1,173 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// A DNS server that never answers unless a test says otherwise
+vi.mock('node:dns/promises', () => ({
+  Resolver: vi.fn().mockImplementation(() => ({
+    setServers: vi.fn(),
+    resolveNaptr: vi.fn().mockImplementation(() => new Promise(() => {})),
+    resolveCname: vi.fn().mockImplementation(() => new Promise(() => {}))
+  }))
+}));
+
+import { Resolver } from 'node:dns/promises';
+import { NAPTRResolver } from '../../src/dns/naptr-resolver.js';
+
+function dnsError(code: string): Error {
+  return Object.assign(new Error(`queryNaptr ${code} example.com`), { code });
+}
+
+describe('NAPTRResolver', () => {
+  it('should fail after the configured timeout', async () => {
+    const resolver = new NAPTRResolver({ timeout: 20, retry: false });
+
+    await expect(resolver.resolveNAPTR('example.com')).rejects.toThrow('DNS lookup timeout');
+  });
+
+  it('should report timeouts and server failures with typed errors', async () => {
+    const resolver = new NAPTRResolver({ timeout: 20, retry: false });
+    const dns = vi.mocked(Resolver).mock.results.at(-1)?.value;
+
+    await expect(resolver.resolveNAPTR('example.com')).rejects.toMatchObject({
+      code: 'DNS_TIMEOUT',
+      context: { phase: 'dns', domain: 'example.com' }
+    });
+
+    dns.resolveNaptr.mockRejectedValueOnce(dnsError('ESERVFAIL'));
+    await expect(resolver.resolveNAPTR('example.com')).rejects.toMatchObject({
+      code: 'DNS_FAILURE'
+    });
+  });
+
+  it('should retry server failures', async () => {
+    const resolver = new NAPTRResolver({ retry: { maxAttempts: 3, baseDelayMs: 1 } });
+    const dns = vi.mocked(Resolver).mock.results.at(-1)?.value;
+    dns.resolveNaptr.mockRejectedValueOnce(dnsError('ESERVFAIL')).mockResolvedValueOnce([
+      {
+        order: 100,
+        preference: 10,
+        flags: 'U',
+        service: 'Meta:SMP',
+        regexp: '!^.*$!https://smp.example.com!',
+        replacement: ''
+      }
+    ]);
+
+    const records = await resolver.resolveNAPTR('example.com');
+
+    expect(records).toHaveLength(1);
+    expect(dns.resolveNaptr).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry timeouts by default', async () => {
+    const resolver = new NAPTRResolver({ timeout: 20, retry: { maxAttempts: 3, baseDelayMs: 1 } });
+    const dns = vi.mocked(Resolver).mock.results.at(-1)?.value;
+
+    await expect(resolver.resolveNAPTR('example.com')).rejects.toMatchObject({
+      code: 'DNS_TIMEOUT'
+    });
+    expect(dns.resolveNaptr).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry timeouts when the policy says so', async () => {
+    const resolver = new NAPTRResolver({
+      timeout: 20,
+      retry: { maxAttempts: 2, baseDelayMs: 1, retryTimeouts: true }
+    });
+    const dns = vi.mocked(Resolver).mock.results.at(-1)?.value;
+
+    await expect(resolver.resolveNAPTR('example.com')).rejects.toThrow('DNS lookup timeout');
+    expect(dns.resolveNaptr).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry NXDOMAIN', async () => {
+    const resolver = new NAPTRResolver({ retry: { maxAttempts: 3, baseDelayMs: 1 } });
+    const dns = vi.mocked(Resolver).mock.results.at(-1)?.value;
+    dns.resolveNaptr.mockRejectedValueOnce(dnsError('ENOTFOUND'));
+
+    expect(await resolver.resolveNAPTR('example.com')).toEqual([]);
+    expect(dns.resolveNaptr).toHaveBeenCalledTimes(1);
+  });
+
+  describe('locateSMP', () => {
+    const naptrRecord = {
+      order: 100,
+      preference: 10,
+      flags: 'U',
+      service: 'Meta:SMP',
+      regexp: '!^.*$!https://smp.example.com!',
+      replacement: ''
+    };
+
+    it('should only query NAPTR records by default', async () => {
+      const resolver = new NAPTRResolver({ smlDomain: 'sml.example.com', retry: false });
+      const dns = vi.mocked(Resolver).mock.results.at(-1)?.value;
+      dns.resolveNaptr.mockResolvedValueOnce([naptrRecord]);
+
+      expect(await resolver.locateSMP('0208:0843766574')).toEqual({
+        smpUrl: 'https://smp.example.com',
+        mechanism: 'naptr',
+        domain:
+          'cmorzb6cpx7e4wldnu4zxrmczeqaiacq4qds2x7zi5ki4nsxxfma.iso6523-actorid-upis.sml.example.com'
+      });
+
+      dns.resolveNaptr.mockRejectedValueOnce(dnsError('ENOTFOUND'));
+      expect(await resolver.locateSMP('0208:0843766574')).toBeNull();
+      expect(dns.resolveCname).not.toHaveBeenCalled();
+    });
+
+    it('should resolve the legacy CNAME record with the cname strategy', async () => {
+      const resolver = new NAPTRResolver({
+        smlDomain: 'sml.example.com',
+        lookupStrategy: 'cname',
+        retry: false
+      });
+      const dns = vi.mocked(Resolver).mock.results.at(-1)?.value;
+      dns.resolveCname.mockResolvedValueOnce(['smp.example.com.']);
+
+      expect(await resolver.locateSMP('0088:5798000000001')).toEqual({
+        smpUrl: 'http://smp.example.com',
+        mechanism: 'cname',
+        domain: 'B-4c7e158a31c6dfa533dcfaf4b80fb205.iso6523-actorid-upis.sml.example.com'
+      });
+      expect(dns.resolveNaptr).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to CNAME when there is no NAPTR record', async () => {
+      const resolver = new NAPTRResolver({
+        smlDomain: 'sml.example.com',
+        lookupStrategy: 'naptr-then-cname',
+        retry: false
+      });
+      const dns = vi.mocked(Resolver).mock.results.at(-1)?.value;
+      dns.resolveNaptr.mockRejectedValueOnce(dnsError('ENOTFOUND'));
+      dns.resolveCname.mockResolvedValueOnce(['smp.example.com']);
+
+      const location = await resolver.locateSMP('0088:5798000000001');
+
+      expect(location?.mechanism).toBe('cname');
+      expect(location?.smpUrl).toBe('http://smp.example.com');
+
+      dns.resolveNaptr.mockRejectedValueOnce(dnsError('ENOTFOUND'));
+      dns.resolveCname.mockRejectedValueOnce(dnsError('ENOTFOUND'));
+      expect(await resolver.locateSMP('0088:5798000000001')).toBeNull();
+    });
+  });
+
+  it('should reject with the abort reason when the signal aborts', async () => {
+    const resolver = new NAPTRResolver({ timeout: 5000 });
+    const controller = new AbortController();
+
+    const pending = resolver.lookupSMP('hash', '0208', 'sml.example.com', controller.signal);
+    controller.abort(new Error('Cancelled'));
+
+    await expect(pending).rejects.toThrow('Cancelled');
+  });
+
+  it('should reject immediately when the signal is already aborted', async () => {
+    const resolver = new NAPTRResolver({ timeout: 5000 });
+
+    await expect(
+      resolver.resolveNAPTR('example.com', AbortSignal.abort(new Error('Cancelled')))
+    ).rejects.toThrow('Cancelled');
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { NETWORK_PROFILES, resolveNetworkProfile, isIssuedBy } from '../../src/network/profiles.js';
+import { PEPPOL_DOCUMENT_TYPE_CODE_LIST } from '../../src/data/document-types.js';
+import { PEPPOL_PARTICIPANT_IDENTIFIER_SCHEME_CODE_LIST } from '../../src/data/participant-identifier-schemes.js';
+
+describe('resolveNetworkProfile', () => {
+  it('should default to the Peppol production network', () => {
+    expect(resolveNetworkProfile()).toEqual(NETWORK_PROFILES['peppol-prod']);
+    expect(resolveNetworkProfile().smlDomain).toBe('participant.sml.prod.tech.peppol.org');
+  });
+
+  it('should select the Peppol test network by name', () => {
+    const profile = resolveNetworkProfile('peppol-test');
+
+    expect(profile.smlDomain).toBe('participant.sml.test.tech.peppol.org');
+    expect(profile.apCAs).toEqual(['PEPPOL ACCESS POINT TEST CA - G2']);
+  });
+
+  it('should let an explicit SML domain override the preset', () => {
+    const profile = resolveNetworkProfile('peppol-test', 'sml.example.com');
+
+    expect(profile.name).toBe('peppol-test');
+    expect(profile.smlDomain).toBe('sml.example.com');
+  });
+
+  it('should build custom networks from partial settings', () => {
+    expect(resolveNetworkProfile('custom', 'sml.example.com')).toEqual({
+      name: 'custom',
+      smlDomain: 'sml.example.com',
+      apCAs: [],
+      smpCAs: [],
+      transportProfiles: [],
+      codeLists: {
+        documentTypes: PEPPOL_DOCUMENT_TYPE_CODE_LIST,
+        participantIdentifierSchemes: PEPPOL_PARTICIPANT_IDENTIFIER_SCHEME_CODE_LIST
+      }
+    });
+    expect(resolveNetworkProfile({ name: 'peppol-test', transportProfiles: [] }).smlDomain).toBe(
+      'participant.sml.test.tech.peppol.org'
+    );
+  });
+
+  it('should reject custom networks without SML domain and unknown names', () => {
+    expect(() => resolveNetworkProfile('custom')).toThrow(
+      expect.objectContaining({ code: 'INVALID_OPTIONS' })
+    );
+    expect(() => resolveNetworkProfile('peppol-dev' as 'custom')).toThrow('Unknown network');
+  });
+});
+
+describe('isIssuedBy', () => {
+  it('should compare the issuer common name', () => {
+    const cas = ['PEPPOL ACCESS POINT CA - G2'];
+
+    expect(isIssuedBy('CN=PEPPOL ACCESS POINT CA - G2, O=OpenPEPPOL AISBL, C=BE', cas)).toBe(true);
+    expect(isIssuedBy('CN=PEPPOL ACCESS POINT TEST CA - G2, O=OpenPEPPOL AISBL, C=BE', cas)).toBe(
+      false
+    );
+    expect(isIssuedBy('O=OpenPEPPOL AISBL, C=BE', cas)).toBe(false);
+  });
+});
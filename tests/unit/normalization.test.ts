@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeParticipantId } from '../../src/identifiers/normalization.js';
+
+describe('normalizeParticipantId', () => {
+  it('should lowercase iso6523-actorid-upis participant IDs', () => {
+    expect(normalizeParticipantId('9925:BE0843766574')).toBe('9925:be0843766574');
+    expect(normalizeParticipantId('0204:HRB12345')).toBe('0204:hrb12345');
+  });
+
+  it('should remove surrounding whitespace', () => {
+    expect(normalizeParticipantId(' 0208:0843766574\n')).toBe('0208:0843766574');
+  });
+
+  it('should keep IDs of other identifier schemes as given', () => {
+    expect(normalizeParticipantId('ABC:Value ', 'private-actorid')).toBe('ABC:Value');
+  });
+});
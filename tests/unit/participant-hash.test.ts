@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import {
   hashParticipantId,
+  hashParticipantIdMD5,
   validateParticipantId,
   parseParticipantId
 } from '../../src/sml/participant-hash.js';
@@ -25,6 +26,20 @@ describe('hashParticipantId', () => {
   });
 });
 
+describe('hashParticipantIdMD5', () => {
+  it('should build the legacy B- label from the MD5 of the lowercase ID', () => {
+    expect(hashParticipantIdMD5('5798000000001', '0088')).toBe(
+      'B-4c7e158a31c6dfa533dcfaf4b80fb205'
+    );
+  });
+
+  it('should ignore the case of the participant ID', () => {
+    expect(hashParticipantIdMD5('BE0843766574', '9925')).toBe(
+      hashParticipantIdMD5('be0843766574', '9925')
+    );
+  });
+});
+
 describe('validateParticipantId', () => {
   it('should validate correct KBO numbers', () => {
     expect(validateParticipantId('0208', '0843766574')).toBe(true);
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { ParticipantIdentifierSchemeLookup } from '../../src/data/participant-identifier-schemes.js';
+
+describe('ParticipantIdentifierSchemeLookup', () => {
+  const lookup = ParticipantIdentifierSchemeLookup.getInstance();
+
+  it('should look up schemes by ICD code', () => {
+    expect(lookup.getScheme('0208')).toEqual({
+      icd: '0208',
+      schemeId: 'BE:EN',
+      name: "Numero d'entreprise / ondernemingsnummer / Unternehmensnummer",
+      issuingAgency:
+        'Banque-Carrefour des Entreprises (BCE) / Kruispuntbank van Ondernemingen (KBO)',
+      country: 'BE',
+      state: 'active'
+    });
+    expect(lookup.getScheme('0088')?.country).toBe('international');
+    expect(lookup.getScheme('1234')).toBeUndefined();
+  });
+
+  it('should report deprecated schemes', () => {
+    expect(lookup.getScheme('9956')).toMatchObject({ schemeId: 'BE:CBE', state: 'deprecated' });
+  });
+
+  it('should list schemes in ICD order, optionally by state', () => {
+    const schemes = lookup.getSchemes();
+    const icds = schemes.map(scheme => scheme.icd);
+
+    expect(icds).toEqual([...icds].sort());
+    expect(icds).toContain('9925');
+    expect(lookup.getSchemes('deprecated').every(scheme => scheme.state === 'deprecated')).toBe(
+      true
+    );
+    expect(lookup.getSchemes('active').length + lookup.getSchemes('deprecated').length).toBe(
+      schemes.length
+    );
+  });
+
+  it('should expose the code list version', () => {
+    expect(lookup.getVersion()).toBe('9.2');
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { ParticipantId } from '../../src/identifiers/participant-identifier.js';
+import { InvalidParticipantIdError } from '../../src/errors/index.js';
+
+describe('ParticipantId', () => {
+  it('should parse the bare scheme:value form', () => {
+    const identifier = ParticipantId.parse('0208:0843766574');
+
+    expect(identifier.scheme).toBe('iso6523-actorid-upis');
+    expect(identifier.value).toBe('0208:0843766574');
+    expect(identifier.icd).toBe('0208');
+    expect(identifier.localValue).toBe('0843766574');
+  });
+
+  it('should parse the double-colon URI form', () => {
+    const identifier = ParticipantId.parse('iso6523-actorid-upis::0208:0843766574');
+
+    expect(identifier.scheme).toBe('iso6523-actorid-upis');
+    expect(identifier.value).toBe('0208:0843766574');
+  });
+
+  it('should parse the percent-encoded URL form', () => {
+    const identifier = ParticipantId.parse('iso6523-actorid-upis%3A%3A0208%3A0843766574');
+
+    expect(identifier.toURI()).toBe('iso6523-actorid-upis::0208:0843766574');
+  });
+
+  it('should keep colons inside the value', () => {
+    const identifier = ParticipantId.parse('0204:991-12345:67');
+
+    expect(identifier.icd).toBe('0204');
+    expect(identifier.localValue).toBe('991-12345:67');
+  });
+
+  it('should reject malformed notations', () => {
+    for (const input of [
+      '0843766574',
+      '0208:',
+      ':0843766574',
+      '::0208:1',
+      'scheme::',
+      '%E0%A4%A'
+    ]) {
+      expect(ParticipantId.tryParse(input), input).toBeNull();
+    }
+    expect(() => ParticipantId.parse('0843766574')).toThrow(InvalidParticipantIdError);
+  });
+
+  it('should accept plain { scheme, value } objects', () => {
+    const identifier = ParticipantId.parse({
+      scheme: 'iso6523-actorid-upis',
+      value: '0208:0843766574'
+    });
+
+    expect(identifier).toBeInstanceOf(ParticipantId);
+    expect(identifier.icd).toBe('0208');
+    expect(identifier.equals({ scheme: 'iso6523-actorid-upis', value: '0208:0843766574' })).toBe(
+      true
+    );
+    expect(ParticipantId.tryParse({ scheme: '', value: '0208:0843766574' })).toBeNull();
+  });
+
+  it('should format URI and URL segment notations', () => {
+    const identifier = new ParticipantId('iso6523-actorid-upis', '9925:be0843766574');
+
+    expect(identifier.toURI()).toBe('iso6523-actorid-upis::9925:be0843766574');
+    expect(identifier.toURLSegment()).toBe('iso6523-actorid-upis%3A%3A9925%3Abe0843766574');
+    expect(String(identifier)).toBe('iso6523-actorid-upis::9925:be0843766574');
+    expect(ParticipantId.parse(identifier.toURLSegment()).equals(identifier)).toBe(true);
+  });
+
+  it('should compare iso6523-actorid-upis values case insensitively', () => {
+    const identifier = ParticipantId.parse('9925:BE0843766574');
+
+    expect(identifier.equals('iso6523-actorid-upis::9925:be0843766574')).toBe(true);
+    expect(identifier.equals('ISO6523-ACTORID-UPIS::9925:be0843766574')).toBe(true);
+    expect(identifier.equals('9925:BE0843766575')).toBe(false);
+    expect(identifier.equals('not an identifier')).toBe(false);
+  });
+
+  it('should compare values of other schemes exactly', () => {
+    const identifier = new ParticipantId('private-actorid', 'ABC:Value');
+
+    expect(identifier.equals('private-actorid::ABC:Value')).toBe(true);
+    expect(identifier.equals('private-actorid::abc:value')).toBe(false);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { PrometheusMetrics } from '../../src/metrics/prometheus.js';
+import type { SMPResolver } from '../../src/resolver.js';
+
+const RESOLUTION = {
+  resolutionId: 1,
+  participantId: '0208:0843766574',
+  operation: 'resolve',
+  startTime: 0
+} as const;
+
+describe('PrometheusMetrics', () => {
+  it('should count resolutions by status and errors by code', () => {
+    const metrics = new PrometheusMetrics();
+
+    metrics.onResolutionEnd({ ...RESOLUTION, durationMs: 120, registrationStatus: 'active' });
+    metrics.onResolutionEnd({ ...RESOLUTION, durationMs: 80, registrationStatus: 'active' });
+    metrics.onResolutionEnd({
+      ...RESOLUTION,
+      durationMs: 5,
+      registrationStatus: 'unregistered',
+      errorCode: 'DNS_NXDOMAIN'
+    });
+
+    const output = metrics.render();
+    expect(output).toContain('# TYPE smp_resolver_resolutions_total counter');
+    expect(output).toContain('smp_resolver_resolutions_total{status="active"} 2');
+    expect(output).toContain('smp_resolver_resolutions_total{status="unregistered"} 1');
+    expect(output).toContain(
+      'smp_resolver_errors_total{operation="resolve",code="DNS_NXDOMAIN"} 1'
+    );
+    expect(output).toContain('smp_resolver_resolution_duration_seconds_count 3');
+  });
+
+  it('should count HTTP responses by SMP host and status code', () => {
+    const metrics = new PrometheusMetrics();
+    const request = { attempt: 1, startTime: 0, durationMs: 30 };
+
+    metrics.onHTTPRequest({ ...request, url: 'https://smp.example.com/a', statusCode: 200 });
+    metrics.onHTTPRequest({ ...request, url: 'https://smp.example.com/b', statusCode: 200 });
+    metrics.onHTTPRequest({
+      ...request,
+      url: 'http://other.example.com:8080/c',
+      error: new Error()
+    });
+
+    const output = metrics.render();
+    expect(output).toContain(
+      'smp_resolver_http_responses_total{host="smp.example.com",status_code="200"} 2'
+    );
+    expect(output).toContain(
+      'smp_resolver_http_responses_total{host="other.example.com:8080",status_code="error"} 1'
+    );
+  });
+
+  it('should render DNS latency as a cumulative histogram', () => {
+    const metrics = new PrometheusMetrics({ dnsBuckets: [0.1, 0.01, 1] });
+
+    for (const durationMs of [5, 50, 500, 5000]) {
+      metrics.onDNSQueryEnd({ domain: 'example.com', startTime: 0, durationMs });
+    }
+
+    const lines = metrics.render().split('\n');
+    expect(lines).toContain('# TYPE smp_resolver_dns_lookup_duration_seconds histogram');
+    expect(lines).toContain('smp_resolver_dns_lookup_duration_seconds_bucket{le="0.01"} 1');
+    expect(lines).toContain('smp_resolver_dns_lookup_duration_seconds_bucket{le="0.1"} 2');
+    expect(lines).toContain('smp_resolver_dns_lookup_duration_seconds_bucket{le="1"} 3');
+    expect(lines).toContain('smp_resolver_dns_lookup_duration_seconds_bucket{le="+Inf"} 4');
+    expect(lines).toContain('smp_resolver_dns_lookup_duration_seconds_sum 5.555');
+  });
+
+  it('should export cache hit ratios of registered resolvers', () => {
+    const metrics = new PrometheusMetrics({ prefix: 'smp_' });
+    metrics.addResolver({
+      getCacheStats: () => ({ enabled: true, hits: 3, misses: 1 }),
+      getCertificateCacheStats: () => ({ size: 2, fingerprints: [] }),
+      getCircuitBreakerStats: () => ({
+        'https://smp.example.com': { state: 'open', consecutiveFailures: 5 }
+      })
+    } as unknown as SMPResolver);
+    metrics.onCertificateParse({ cached: false, startTime: 0, durationMs: 2 });
+    metrics.onCertificateParse({ cached: true, startTime: 0, durationMs: 0 });
+
+    const output = metrics.render();
+    expect(output).toContain('smp_cache_hits_total 3');
+    expect(output).toContain('smp_cache_hit_ratio 0.75');
+    expect(output).toContain('smp_certificate_cache_size 2');
+    expect(output).toContain('smp_certificate_cache_hit_ratio 0.5');
+    expect(output).toContain('smp_circuit_breakers{state="open"} 1');
+  });
+
+  it('should escape label values', () => {
+    const metrics = new PrometheusMetrics();
+
+    metrics.onResolutionEnd({
+      ...RESOLUTION,
+      durationMs: 1,
+      registrationStatus: 'say "hi"\n' as 'active'
+    });
+
+    expect(metrics.render()).toContain('{status="say \\"hi\\"\\n"} 1');
+  });
+});
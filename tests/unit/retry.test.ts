@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  retry,
+  getRetryDelay,
+  resolveRetryPolicy,
+  isTimeoutError,
+  createDeadlineSignal,
+  DEFAULT_RETRY_POLICY
+} from '../../src/resilience/retry.js';
+
+const FAST_POLICY = resolveRetryPolicy({ maxAttempts: 3, baseDelayMs: 1, jitter: false });
+
+describe('retry', () => {
+  it('should retry retryable errors until the operation succeeds', async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('ECONNRESET'))
+      .mockResolvedValueOnce('ok');
+
+    const result = await retry(operation, FAST_POLICY, { isRetryableError: () => true });
+
+    expect(result).toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('should throw the last error once attempts are exhausted', async () => {
+    const operation = vi.fn().mockRejectedValue(new Error('SERVFAIL'));
+
+    await expect(retry(operation, FAST_POLICY, { isRetryableError: () => true })).rejects.toThrow(
+      'SERVFAIL'
+    );
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry non-retryable errors', async () => {
+    const operation = vi.fn().mockRejectedValue(new Error('ENOTFOUND'));
+
+    await expect(retry(operation, FAST_POLICY, { isRetryableError: () => false })).rejects.toThrow(
+      'ENOTFOUND'
+    );
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry retryable results and return the last one', async () => {
+    const operation = vi.fn().mockResolvedValue({ statusCode: 503 });
+
+    const result = await retry(operation, FAST_POLICY, {
+      isRetryableError: () => true,
+      isRetryableResult: response => response.statusCode === 503
+    });
+
+    expect(result.statusCode).toBe(503);
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop waiting when the signal aborts', async () => {
+    const controller = new AbortController();
+    const operation = vi.fn().mockRejectedValue(new Error('timeout'));
+    const slowPolicy = resolveRetryPolicy({ baseDelayMs: 60_000, maxDelayMs: 60_000 });
+
+    const pending = retry(operation, slowPolicy, {
+      isRetryableError: () => true,
+      signal: controller.signal
+    });
+    setTimeout(() => controller.abort(new Error('Cancelled')), 10);
+
+    await expect(pending).rejects.toThrow('Cancelled');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not start retries that would end past the deadline', async () => {
+    const operation = vi.fn().mockRejectedValue(new Error('SERVFAIL'));
+    const slowPolicy = resolveRetryPolicy({
+      baseDelayMs: 60_000,
+      maxDelayMs: 60_000,
+      jitter: false
+    });
+
+    const start = Date.now();
+    await expect(
+      retry(operation, slowPolicy, {
+        isRetryableError: () => true,
+        signal: createDeadlineSignal(1000)
+      })
+    ).rejects.toThrow('SERVFAIL');
+    expect(Date.now() - start).toBeLessThan(500);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('isTimeoutError', () => {
+  it('should recognize DNS and HTTP timeouts and aborts', () => {
+    for (const code of ['ETIMEOUT', 'DNS_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT']) {
+      expect(isTimeoutError(Object.assign(new Error('timeout'), { code })), code).toBe(true);
+    }
+    expect(isTimeoutError(new DOMException('aborted', 'AbortError'))).toBe(true);
+    expect(isTimeoutError(new DOMException('timed out', 'TimeoutError'))).toBe(true);
+  });
+
+  it('should not treat other failures as timeouts', () => {
+    expect(isTimeoutError(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe(false);
+    expect(isTimeoutError(new Error('SERVFAIL'))).toBe(false);
+    expect(isTimeoutError('timeout')).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('should back off exponentially up to the maximum delay', () => {
+    const policy = resolveRetryPolicy({ baseDelayMs: 100, maxDelayMs: 500, jitter: false });
+
+    expect(getRetryDelay(1, policy)).toBe(100);
+    expect(getRetryDelay(2, policy)).toBe(200);
+    expect(getRetryDelay(3, policy)).toBe(400);
+    expect(getRetryDelay(4, policy)).toBe(500);
+  });
+
+  it('should keep jittered delays within the backoff window', () => {
+    const policy = resolveRetryPolicy({ baseDelayMs: 100, jitter: true });
+
+    for (let i = 0; i < 20; i++) {
+      const delay = getRetryDelay(2, policy);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(200);
+    }
+  });
+});
+
+describe('resolveRetryPolicy', () => {
+  it('should disable retries when set to false', () => {
+    expect(resolveRetryPolicy(false).maxAttempts).toBe(1);
+  });
+
+  it('should fill in defaults', () => {
+    expect(resolveRetryPolicy({ maxAttempts: 5 })).toEqual({
+      ...DEFAULT_RETRY_POLICY,
+      maxAttempts: 5
+    });
+  });
+});
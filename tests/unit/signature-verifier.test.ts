@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { webcrypto } from 'node:crypto';
+import * as x509 from '@peculiar/x509';
+import { SignedXml } from 'xml-crypto';
+import { SignatureVerifier } from '../../src/xml/signature-verifier.js';
+import { CertificateParser } from '../../src/certificate/parser.js';
+
+const SERVICE_METADATA = `<?xml version="1.0" encoding="UTF-8"?>
+<SignedServiceMetadata xmlns="http://busdox.org/serviceMetadata/publishing/1.0/">
+  <ServiceMetadata>
+    <ServiceInformation>
+      <ParticipantIdentifier scheme="iso6523-actorid-upis">0208:0843766574</ParticipantIdentifier>
+      <DocumentIdentifier scheme="busdox-docid-qns">invoice</DocumentIdentifier>
+      <ProcessList>
+        <Process>
+          <ProcessIdentifier scheme="cenbii-procid-ubl">billing</ProcessIdentifier>
+          <ServiceEndpointList>
+            <Endpoint transportProfile="peppol-transport-as4-v2_0">
+              <EndpointURI>https://as4.example.com/as4</EndpointURI>
+            </Endpoint>
+          </ServiceEndpointList>
+        </Process>
+      </ProcessList>
+    </ServiceInformation>
+  </ServiceMetadata>
+</SignedServiceMetadata>`;
+
+function toPem(der: ArrayBuffer, label: string): string {
+  const base64 = Buffer.from(der)
+    .toString('base64')
+    .replace(/(.{64})/g, '$1\n');
+  return `-----BEGIN ${label}-----\n${base64}\n-----END ${label}-----`;
+}
+
+/**
+ * Signs XML the way an SMP does: enveloped signature over the whole document, C14N, RSA-SHA256
+ */
+function signServiceMetadata(xml: string, privateKey: string, publicCert: string): string {
+  const signedXml = new SignedXml({
+    privateKey,
+    publicCert,
+    signatureAlgorithm: 'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256',
+    canonicalizationAlgorithm: 'http://www.w3.org/TR/2001/REC-xml-c14n-20010315'
+  });
+  signedXml.addReference({
+    xpath: '/*',
+    uri: '',
+    isEmptyUri: true,
+    transforms: ['http://www.w3.org/2000/09/xmldsig#enveloped-signature'],
+    digestAlgorithm: 'http://www.w3.org/2001/04/xmlenc#sha256'
+  });
+  signedXml.computeSignature(xml, { location: { reference: '/*', action: 'append' } });
+  return signedXml.getSignedXml();
+}
+
+describe('SignatureVerifier', () => {
+  let verifier: SignatureVerifier;
+  let signedXml: string;
+
+  beforeAll(async () => {
+    x509.cryptoProvider.set(webcrypto as Crypto);
+
+    const algorithm = {
+      name: 'RSASSA-PKCS1-v1_5',
+      hash: 'SHA-256',
+      publicExponent: new Uint8Array([1, 0, 1]),
+      modulusLength: 2048
+    };
+    const keys = await webcrypto.subtle.generateKey(algorithm, true, ['sign', 'verify']);
+    const certificate = await x509.X509CertificateGenerator.createSelfSigned({
+      serialNumber: '01',
+      name: 'CN=Test SMP, O=Example, C=BE',
+      notBefore: new Date('2024-01-01'),
+      notAfter: new Date('2034-01-01'),
+      signingAlgorithm: algorithm,
+      keys: keys as CryptoKeyPair
+    });
+
+    const privateKey = toPem(
+      await webcrypto.subtle.exportKey('pkcs8', keys.privateKey),
+      'PRIVATE KEY'
+    );
+    signedXml = signServiceMetadata(SERVICE_METADATA, privateKey, certificate.toString('pem'));
+    verifier = new SignatureVerifier(new CertificateParser());
+  });
+
+  it('should report a valid signature with the signer certificate', () => {
+    const result = verifier.verify(signedXml);
+
+    expect(result.status).toBe('valid');
+    expect(result.error).toBeUndefined();
+    expect(result.signerCertificate?.subjectDN).toContain('CN=Test SMP');
+  });
+
+  it('should report an invalid signature when the metadata was tampered with', () => {
+    const tampered = signedXml.replace(
+      'https://as4.example.com/as4',
+      'https://attacker.example.com/as4'
+    );
+    const result = verifier.verify(tampered);
+
+    expect(result.status).toBe('invalid');
+    expect(result.error).toBeDefined();
+    expect(result.signerCertificate).toBeDefined();
+  });
+
+  it('should report a missing signature', () => {
+    const result = verifier.verify(SERVICE_METADATA);
+
+    expect(result.status).toBe('missing');
+  });
+
+  it('should report malformed XML as invalid', () => {
+    const result = verifier.verify('<SignedServiceMetadata><unclosed>');
+
+    expect(result.status).toBe('invalid');
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createTracingInstrumentation,
+  RecordingTracer,
+  SpanKind,
+  SpanStatusCode
+} from '../../src/instrumentation/tracing.js';
+
+describe('createTracingInstrumentation', () => {
+  it('should emit child spans under the resolution span', () => {
+    const tracer = new RecordingTracer();
+    const hooks = createTracingInstrumentation(tracer);
+    const scope = { resolutionId: 1, participantId: '0208:0843766574' };
+
+    hooks.onResolutionStart?.({ ...scope, operation: 'resolve', startTime: 1000 });
+    hooks.onHTTPRequest?.({
+      ...scope,
+      url: 'https://smp.example.com/iso6523-actorid-upis::0208:0843766574',
+      attempt: 2,
+      statusCode: 200,
+      bytes: 512,
+      startTime: 1010,
+      durationMs: 40
+    });
+    hooks.onResolutionEnd?.({
+      ...scope,
+      operation: 'resolve',
+      startTime: 1000,
+      durationMs: 100,
+      registrationStatus: 'active'
+    });
+
+    const [http, resolution] = tracer.getFinishedSpans();
+    expect(resolution).toMatchObject({
+      name: 'smp.resolve',
+      startTime: 1000,
+      endTime: 1100,
+      attributes: { 'smp.participant_id': '0208:0843766574', 'smp.registration_status': 'active' }
+    });
+    expect(http).toMatchObject({
+      name: 'GET',
+      kind: SpanKind.CLIENT,
+      parentSpanId: resolution.spanId,
+      durationMs: 40,
+      attributes: {
+        'http.response.status_code': 200,
+        'http.response.body.size': 512,
+        'http.request.resend_count': 1
+      }
+    });
+  });
+
+  it('should mark failed steps as errors', () => {
+    const tracer = new RecordingTracer();
+    const hooks = createTracingInstrumentation(tracer);
+
+    hooks.onDNSQueryEnd?.({
+      domain: 'example.com',
+      startTime: 0,
+      durationMs: 5000,
+      error: new Error('DNS lookup timeout')
+    });
+
+    const [dns] = tracer.getFinishedSpans();
+    expect(dns.name).toBe('dns.naptr');
+    expect(dns.parentSpanId).toBeUndefined();
+    expect(dns.status).toEqual({ code: SpanStatusCode.ERROR, message: 'DNS lookup timeout' });
+    expect(dns.exceptions).toEqual(['DNS lookup timeout']);
+  });
+
+  it('should pass the parent context built by contextForSpan', () => {
+    const contexts: unknown[] = [];
+    const tracer = new RecordingTracer();
+    const hooks = createTracingInstrumentation(
+      {
+        startSpan: (name, options, context) => {
+          contexts.push(context);
+          return tracer.startSpan(name, options);
+        }
+      },
+      { contextForSpan: () => 'parent-context' }
+    );
+
+    hooks.onResolutionStart?.({
+      resolutionId: 7,
+      participantId: '0208:1',
+      operation: 'canReceive',
+      startTime: 0
+    });
+    hooks.onCertificateParse?.({ resolutionId: 7, cached: true, startTime: 0, durationMs: 1 });
+
+    expect(contexts).toEqual([undefined, 'parent-context']);
+  });
+});
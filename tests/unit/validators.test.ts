@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { IdentifierValidatorRegistry } from '../../src/identifiers/validators.js';
+
+describe('IdentifierValidatorRegistry', () => {
+  const validators = new IdentifierValidatorRegistry();
+
+  it('should accept valid identifiers of the built-in schemes', () => {
+    for (const participantId of [
+      '0208:0843766574', // Belgian KBO
+      '9925:BE0843766574', // Belgian VAT
+      '9925:be0843766574',
+      '0088:5798000000001', // GLN
+      '0192:923609016', // Norwegian organization number
+      '0007:5560360793', // Swedish organization number
+      '0106:12345678', // Dutch KvK
+      '9944:NL123456789B01' // Dutch VAT
+    ]) {
+      expect(validators.validate(participantId), participantId).toMatchObject({
+        valid: true,
+        checked: true
+      });
+    }
+  });
+
+  it('should reject identifiers with a wrong check digit', () => {
+    for (const participantId of [
+      '0208:0843766575',
+      '9925:BE0843766575',
+      '0088:5798000000002',
+      '0192:923609017',
+      '0007:5560360794'
+    ]) {
+      expect(validators.validate(participantId).issue?.reason, participantId).toBe(
+        'invalid-check-digit'
+      );
+    }
+  });
+
+  it('should reject a Norwegian number whose check digit would be 10', () => {
+    // Weighted sum 12 leaves remainder 1: such numbers are never issued
+    for (let digit = 0; digit <= 9; digit++) {
+      expect(validators.validate(`0192:06000000${digit}`).valid).toBe(false);
+    }
+  });
+
+  it('should report length and character problems', () => {
+    expect(validators.validate('0208:084376657').issue).toEqual({
+      reason: 'invalid-length',
+      message: 'Belgian enterprise number (KBO/BCE) must have 10 digits, got 9'
+    });
+    expect(validators.validate('0106:1234567').issue?.reason).toBe('invalid-length');
+    expect(validators.validate('0088:579800000000A').issue?.reason).toBe('invalid-characters');
+  });
+
+  it('should require the country code of VAT schemes', () => {
+    const result = validators.validate('9925:0843766574');
+
+    expect(result.valid).toBe(false);
+    expect(result.issue).toEqual({
+      reason: 'invalid-country-prefix',
+      message: 'VAT number must start with the country code "BE"'
+    });
+    expect(validators.validate('9930:FR123456789').issue?.reason).toBe('invalid-country-prefix');
+    expect(validators.validate('9933:EL123456789').valid).toBe(true);
+  });
+
+  it('should reject identifiers not in scheme:value format', () => {
+    expect(validators.validate('0843766574').issue?.reason).toBe('invalid-format');
+    expect(validators.validate('0208:').issue?.reason).toBe('invalid-format');
+  });
+
+  it('should accept any value of schemes without a validator', () => {
+    expect(validators.validate('0204:HRB 12345')).toEqual({
+      valid: true,
+      participantId: '0204:HRB 12345',
+      scheme: '0204',
+      checked: false
+    });
+  });
+
+  it('should report identifier objects in their URI form', () => {
+    expect(
+      validators.validate({ scheme: 'iso6523-actorid-upis', value: '0208:0843766575' })
+    ).toMatchObject({
+      valid: false,
+      participantId: 'iso6523-actorid-upis::0208:0843766575'
+    });
+    expect(validators.validate({ scheme: 'iso6523-actorid-upis', value: '' })).toMatchObject({
+      valid: false,
+      participantId: 'iso6523-actorid-upis::'
+    });
+  });
+
+  it('should use registered validators', () => {
+    const custom = new IdentifierValidatorRegistry().register('0184', value =>
+      /^DK\d{8}$/i.test(value)
+        ? undefined
+        : { reason: 'invalid-format', message: 'Expected DK followed by 8 digits' }
+    );
+
+    expect(custom.has('0184')).toBe(true);
+    expect(custom.validate('0184:DK12345678').valid).toBe(true);
+    expect(custom.validate('0184:12345678').issue?.message).toBe(
+      'Expected DK followed by 8 digits'
+    );
+    expect(validators.has('0184')).toBe(false);
+  });
+
+  it('should start empty when given no validators', () => {
+    expect(new IdentifierValidatorRegistry({}).validate('0208:0843766575').valid).toBe(true);
+  });
+});
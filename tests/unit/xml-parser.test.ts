@@ -67,10 +67,16 @@ describe('XMLParser', () => {
 
       const docType = result.documentTypes[0];
       expect(docType.documentIdentifier.value).toContain('Invoice');
+      expect(docType.friendlyName).toBe('Peppol BIS Billing UBL Invoice V3');
+      expect(docType.syntax).toBe('UBL');
+      expect(docType.bisName).toBe('Billing');
+      expect(docType.bisVersion).toBe('3.0');
+      expect(docType.codeListInfo?.category).toBe('Invoice');
       expect(docType.processes).toHaveLength(1);
 
       const process = docType.processes[0];
       expect(process.processIdentifier.value).toContain('billing');
+      expect(docType.codeListInfo?.processIds).toContainEqual(process.processIdentifier);
       expect(process.endpoints).toHaveLength(1);
 
       const endpoint = process.endpoints[0];
@@ -107,6 +113,23 @@ describe('XMLParser', () => {
     });
   });
 
+  describe('parseServiceMetadata redirects', () => {
+    it('should return the redirect href instead of document types', () => {
+      const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<SignedServiceMetadata xmlns="http://busdox.org/serviceMetadata/publishing/1.0/">
+  <ServiceMetadata>
+    <Redirect href="https://smp2.example.com/iso6523-actorid-upis%3A%3A0208%3A0843766574/services/busdox-docid-qns%3A%3Ainvoice">
+      <CertificateUID>PID:9208-2001-3-279815395</CertificateUID>
+    </Redirect>
+  </ServiceMetadata>
+</SignedServiceMetadata>`;
+
+      const result = parser.parseServiceMetadata(xml);
+      expect(result.documentTypes).toHaveLength(0);
+      expect(result.redirect).toContain('https://smp2.example.com/');
+    });
+  });
+
   describe('error handling', () => {
     it('should handle malformed XML gracefully', () => {
       const malformedXml = '<invalid>not closed';